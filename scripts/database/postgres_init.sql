@@ -20,3 +20,153 @@ CREATE TABLE IF NOT EXISTS "order-engine".orders (
 
 CREATE INDEX IF NOT EXISTS idx_orders_status 
     ON "order-engine".orders(status);
+
+
+-- limit orders: min out per unit in (base units), checked by the trigger service
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS limit_price numeric;
+
+-- stop_loss / take_profit: trigger parameters and the observed price when fired
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS trigger_price numeric;
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS triggered_price numeric;
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS triggered_at timestamptz;
+
+DROP INDEX IF EXISTS "order-engine".idx_orders_waiting;
+CREATE INDEX IF NOT EXISTS idx_orders_parked
+    ON "order-engine".orders(status, created_at) WHERE status IN ('waiting', 'armed');
+
+-- TWAP: parent/child linkage and aggregate progress on the parent
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS parent_id uuid;
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS slice_index integer;
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS twap_slices integer;
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS twap_duration_sec integer;
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS filled_amount_in numeric DEFAULT 0;
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS filled_amount_out numeric DEFAULT 0;
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS slices_completed integer DEFAULT 0;
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS slices_failed integer DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_orders_parent_id
+    ON "order-engine".orders(parent_id) WHERE parent_id IS NOT NULL;
+
+-- pool registry: which pools the router may use per pair (venue = DEX adapter name)
+CREATE TABLE IF NOT EXISTS "order-engine".pools (
+  venue text NOT NULL,
+  pool_id text NOT NULL,
+  mint_a text NOT NULL,
+  mint_b text NOT NULL,
+  pool_type text,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (venue, pool_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pools_mints
+    ON "order-engine".pools(mint_a, mint_b);
+
+-- firm quotes: the quote an order was placed from
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS quote_id text;
+
+-- order query API: newest-first listing per user / status / pair (cursor over created_at, id)
+CREATE INDEX IF NOT EXISTS idx_orders_status_created_at
+    ON "order-engine".orders(status, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_user_created_at
+    ON "order-engine".orders(user_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_pair_created_at
+    ON "order-engine".orders(token_in, token_out, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_created_at
+    ON "order-engine".orders(created_at DESC, id DESC);
+
+-- idempotent submission: one order per user and Idempotency-Key, across every server instance
+-- (orders without a user share the '' scope; the first version of this index was global)
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS idempotency_key text;
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS request_hash text;
+DROP INDEX IF EXISTS "order-engine".idx_orders_idempotency_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_user_idempotency_key
+    ON "order-engine".orders((COALESCE(user_id, '')), idempotency_key) WHERE idempotency_key IS NOT NULL;
+
+-- exactly-once execution: the transaction each order leg sent, recorded before it is sent
+CREATE TABLE IF NOT EXISTS "order-engine".order_executions (
+  order_id uuid NOT NULL REFERENCES "order-engine".orders(id) ON DELETE CASCADE,
+  leg text NOT NULL,
+  venue text NOT NULL,
+  signature text NOT NULL,
+  blockhash text NOT NULL,
+  last_valid_block_height bigint NOT NULL,
+  expected_out text,
+  status text NOT NULL DEFAULT 'sent',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (order_id, leg)
+);
+
+-- error taxonomy: machine-readable failure code (see src/utils/errors.ts)
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS error_code text;
+
+-- API keys: only the SHA-256 of each key is stored; a key acts for one user
+CREATE TABLE IF NOT EXISTS "order-engine".api_keys (
+  id text PRIMARY KEY,
+  key_hash text NOT NULL UNIQUE,
+  user_id text NOT NULL,
+  name text,
+  created_at timestamptz DEFAULT now(),
+  revoked_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id
+    ON "order-engine".api_keys(user_id);
+
+-- order event log: every lifecycle event, numbered per order, replayed to sockets on subscribe
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS last_event_seq integer NOT NULL DEFAULT 0;
+CREATE TABLE IF NOT EXISTS "order-engine".order_events (
+  order_id uuid NOT NULL REFERENCES "order-engine".orders(id) ON DELETE CASCADE,
+  seq integer NOT NULL,
+  status text,
+  payload jsonb NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (order_id, seq)
+);
+
+-- webhooks: where an order's events are POSTed (an API key's URL is the default for its orders),
+-- and one delivery row per event and URL
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS callback_url text;
+ALTER TABLE "order-engine".api_keys ADD COLUMN IF NOT EXISTS callback_url text;
+CREATE TABLE IF NOT EXISTS "order-engine".webhook_deliveries (
+  id text PRIMARY KEY,
+  order_id uuid NOT NULL REFERENCES "order-engine".orders(id) ON DELETE CASCADE,
+  url text NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  last_status_code integer,
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  delivered_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status_created_at
+    ON "order-engine".webhook_deliveries(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_order_id
+    ON "order-engine".webhook_deliveries(order_id);
+
+-- dry-run orders: simulated only, they end as `simulated` without sending a transaction
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS dry_run boolean NOT NULL DEFAULT false;
+
+-- priority fees: the order's cap on what its transactions may pay, and what they paid (lamports)
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS max_priority_fee_lamports bigint;
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS priority_fee_lamports bigint;
+
+-- when every transaction of a landed order reached `finalized` commitment
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS finalized_at timestamptz;
+
+-- realized execution read from the confirmed transactions: exact base-unit amounts and the
+-- slippage versus the quote (executed_price is the realized out / in price)
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS executed_amount_in numeric;
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS executed_amount_out numeric;
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS realized_slippage_bps numeric;
+
+-- TWAP: when a slice's outcome was added to its parent's totals, so a retried slice is counted once
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS slice_counted_at timestamptz;
+
+-- the order's current BullMQ job: each enqueue gets a fresh id, and cancellation removes this one
+ALTER TABLE "order-engine".orders ADD COLUMN IF NOT EXISTS job_id text;
@@ -0,0 +1,217 @@
+import { PublicKey } from '@solana/web3.js';
+import { TRIGGER_ORDER_TYPES } from '../triggers/triggerRules.js';
+import { TWAP_MAX_SLICES } from '../orders/twap.js';
+
+/**
+ * JSON schemas for the HTTP routes, plus the Ajv formats they use and the 400 response shape.
+ *
+ * Every validation failure, from a schema or from a check in a handler, is answered with
+ * `400 { error: 'validation_failed', details: [{ field, message }] }`, one entry per failing field.
+ */
+
+export const MAX_SLIPPAGE_PERCENT = 50;
+// 10 SOL; a cap above this is almost certainly a unit mistake
+export const MAX_PRIORITY_FEE_LAMPORTS = 10_000_000_000;
+
+const POSITIVE_INT = '^[1-9]\\d*$';
+const POSITIVE_DECIMAL = '^(?=.*[1-9])\\d+(\\.\\d+)?$';
+
+function isPublicKey(value: string) {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Ajv plugin: `solana-pubkey` (base58, 32 bytes) and `solana-mint` (a pubkey, or `SOL` for native SOL) */
+export function solanaFormats(ajv: any) {
+  ajv.addFormat('solana-pubkey', { type: 'string', validate: isPublicKey });
+  ajv.addFormat('solana-mint', { type: 'string', validate: (v: string) => v === 'SOL' || isPublicKey(v) });
+}
+
+// allErrors so a 400 lists every failing field; the schemas bound string lengths to keep that cheap
+export const ajvOptions = {
+  customOptions: { allErrors: true, removeAdditional: false as const, allowUnionTypes: true },
+  plugins: [solanaFormats]
+};
+
+const mint = { type: 'string', format: 'solana-mint', maxLength: 64 } as const;
+const pubkey = { type: 'string', format: 'solana-pubkey', maxLength: 64 } as const;
+const amount = { type: 'string', pattern: POSITIVE_INT, maxLength: 40 } as const;
+const price = { type: 'string', pattern: POSITIVE_DECIMAL, maxLength: 64 } as const;
+const slippage = { type: 'number', minimum: 0, maximum: MAX_SLIPPAGE_PERCENT } as const;
+const callbackUrl = { type: 'string', format: 'uri', pattern: '^https?://', maxLength: 2048 } as const;
+
+const MESSAGES: Record<string, string> = {
+  'format:solana-pubkey': 'must be a base58 Solana public key',
+  'format:solana-mint': 'must be a base58 mint address (or "SOL")',
+  [`pattern:${POSITIVE_INT}`]: 'must be a positive integer string in base units',
+  [`pattern:${POSITIVE_DECIMAL}`]: 'must be a positive decimal',
+  'pattern:^https?://': 'must be an http(s) URL'
+};
+
+export type FieldError = { field: string; message: string };
+
+export type QuoteBody = { token_in: string; token_out: string; amount_in: string; slippage?: number };
+
+export const quoteBodySchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['token_in', 'token_out', 'amount_in'],
+  properties: { token_in: mint, token_out: mint, amount_in: amount, slippage }
+};
+
+export type ExecuteOrderBody = {
+  type: 'market' | 'limit' | 'twap' | typeof TRIGGER_ORDER_TYPES[number];
+  token_in?: string;
+  token_out?: string;
+  amount_in?: string;
+  slippage?: number;
+  limit_price?: string;
+  trigger_price?: string;
+  slices?: number;
+  duration?: number;
+  quoteId?: string;
+  callback_url?: string;
+  dry_run?: boolean;
+  max_priority_fee_lamports?: number;
+  /** accepted from older clients and ignored: an order belongs to its API key's user */
+  user_id?: string | null;
+};
+
+// `type` defaults to market (a missing type is a market order); each order type's own fields are required through if / then
+export const executeOrderBodySchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    type: { type: 'string', enum: ['market', 'limit', 'twap', ...TRIGGER_ORDER_TYPES], default: 'market' },
+    token_in: mint,
+    token_out: mint,
+    amount_in: amount,
+    slippage,
+    limit_price: price,
+    trigger_price: price,
+    slices: { type: 'integer', minimum: 2, maximum: TWAP_MAX_SLICES },
+    duration: { type: 'integer', minimum: 1 },
+    quoteId: { type: 'string', minLength: 1, maxLength: 64 },
+    callback_url: callbackUrl,
+    dry_run: { type: 'boolean' },
+    max_priority_fee_lamports: { type: 'integer', minimum: 0, maximum: MAX_PRIORITY_FEE_LAMPORTS },
+    user_id: { type: ['string', 'null'], maxLength: 128 }
+  },
+  allOf: [
+    { if: { not: { required: ['quoteId'] } }, then: { required: ['token_in', 'token_out', 'amount_in'] } },
+    { if: { required: ['quoteId'] }, then: { properties: { type: { const: 'market' } } } },
+    { if: { required: ['type'], properties: { type: { const: 'limit' } } }, then: { required: ['limit_price'] } },
+    { if: { required: ['type'], properties: { type: { enum: [...TRIGGER_ORDER_TYPES] } } }, then: { required: ['trigger_price'] } },
+    { if: { required: ['type'], properties: { type: { const: 'twap' } } }, then: { required: ['slices', 'duration'] } }
+  ]
+};
+
+export type PoolBody = { venue: string; pool_id: string; mint_a: string; mint_b: string; pool_type?: string | null; enabled?: boolean };
+
+export const poolBodySchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['venue', 'pool_id', 'mint_a', 'mint_b'],
+  properties: {
+    venue: { type: 'string', minLength: 1, maxLength: 32 },
+    pool_id: pubkey,
+    mint_a: pubkey,
+    mint_b: pubkey,
+    pool_type: { type: ['string', 'null'], maxLength: 32 },
+    enabled: { type: 'boolean' }
+  }
+};
+
+export type ApiKeyBody = { user_id: string; name?: string | null; callback_url?: string | null };
+
+export const apiKeyBodySchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['user_id'],
+  properties: {
+    user_id: { type: 'string', minLength: 1, maxLength: 128 },
+    name: { type: ['string', 'null'], maxLength: 128 },
+    callback_url: { anyOf: [callbackUrl, { type: 'null' }] }
+  }
+};
+
+export type OrderListQuery = {
+  user_id?: string;
+  status?: string | string[];
+  token_in?: string;
+  token_out?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  cursor?: string;
+};
+
+export const orderListQuerySchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    user_id: { type: 'string', maxLength: 128 },
+    status: { anyOf: [{ type: 'string', maxLength: 256 }, { type: 'array', items: { type: 'string', maxLength: 32 }, maxItems: 20 }] },
+    token_in: mint,
+    token_out: mint,
+    from: { type: 'string', maxLength: 40 },
+    to: { type: 'string', maxLength: 40 },
+    limit: { type: 'integer' },
+    cursor: { type: 'string', maxLength: 256 }
+  }
+};
+
+export type WebhookListQuery = { status?: 'pending' | 'delivered' | 'dead'; order_id?: string; limit?: number };
+
+export const webhookListQuerySchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    status: { type: 'string', enum: ['pending', 'delivered', 'dead'] },
+    order_id: { type: 'string', format: 'uuid' },
+    limit: { type: 'integer', minimum: 1, maximum: 500 }
+  }
+};
+
+export const webhookParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: { id: { type: 'string', maxLength: 128 } }
+};
+
+export const orderIdParamsSchema = {
+  type: 'object',
+  required: ['id'],
+  properties: { id: { type: 'string', maxLength: 64 } }
+};
+
+export const poolParamsSchema = {
+  type: 'object',
+  required: ['venue', 'poolId'],
+  properties: { venue: { type: 'string', maxLength: 32 }, poolId: { type: 'string', maxLength: 64 } }
+};
+
+/** One entry per failing field from Ajv's errors; `if` wrappers are dropped in favour of what failed inside them */
+export function toFieldErrors(errors: any[]): FieldError[] {
+  const out: FieldError[] = [];
+  for (const e of errors ?? []) {
+    if (e.keyword === 'if') continue;
+    const path = String(e.instancePath ?? '').replace(/^\//, '').replace(/\//g, '.');
+    const prop = e.params?.missingProperty ?? e.params?.additionalProperty;
+    const field = [path, prop].filter(Boolean).join('.');
+    let message = MESSAGES[`${e.keyword}:${e.params?.format ?? e.params?.pattern}`] ?? e.message ?? 'is invalid';
+    if (e.keyword === 'required') message = 'is required';
+    if (e.keyword === 'additionalProperties') message = 'is not allowed';
+    if (e.keyword === 'const' && field === 'type') message = 'must be market when quoteId is given';
+    if (!out.some(o => o.field === field && o.message === message)) out.push({ field, message });
+  }
+  return out;
+}
+
+export function validationFailed(reply: any, details: FieldError[]) {
+  return reply.status(400).send({ error: 'validation_failed', details });
+}
@@ -0,0 +1,69 @@
+import type { ServerResponse } from 'http';
+import type { EventSink } from '../websocket/wsManager.js';
+
+/**
+ * Server-Sent Events for `GET /api/orders/:id/events`. Each order event becomes one SSE message
+ * whose `id` is the event's seq, so a reconnecting EventSource resumes through `Last-Event-ID`.
+ * A comment line is written every SSE_HEARTBEAT_MS to keep proxies from closing an idle stream.
+ */
+
+export const SSE_HEARTBEAT_MS = Number(process.env.SSE_HEARTBEAT_MS ?? 15_000);
+
+const OPEN = 1;
+const CLOSED = 3;
+
+/** One SSE message for a published payload (JSON text); payloads without a seq get no id */
+export function sseFrame(message: string) {
+  let seq: unknown;
+  try {
+    seq = JSON.parse(message)?.seq;
+  } catch {
+    seq = undefined;
+  }
+  const id = Number.isInteger(seq) ? `id: ${seq}\n` : '';
+  const data = message.split('\n').map(line => `data: ${line}`).join('\n');
+  return `${id}${data}\n\n`;
+}
+
+/** The seq to resume after: the `Last-Event-ID` header, or a `lastEventId` query parameter for clients that cannot set headers */
+export function lastEventId(header: unknown, query: unknown): number | undefined {
+  const raw = header ?? query;
+  const value = Number(Array.isArray(raw) ? raw[0] : raw);
+  return Number.isInteger(value) && value >= 0 ? value : undefined;
+}
+
+/** Start the stream on a hijacked response and adapt it to the EventSink wsManager relays to */
+export function openSseStream(raw: ServerResponse, onClose: (sink: EventSink) => void) {
+  raw.writeHead(200, {
+    'content-type': 'text/event-stream; charset=utf-8',
+    'cache-control': 'no-cache, no-transform',
+    'connection': 'keep-alive',
+    // nginx buffers responses by default, which would hold events back
+    'x-accel-buffering': 'no',
+  });
+  // tells EventSource how long to wait before reconnecting
+  raw.write('retry: 3000\n\n');
+
+  const sink: EventSink = {
+    OPEN,
+    readyState: OPEN,
+    send(message: string) {
+      raw.write(sseFrame(message));
+    },
+  };
+
+  const heartbeat = setInterval(() => raw.write(': heartbeat\n\n'), SSE_HEARTBEAT_MS);
+  raw.on('close', () => {
+    clearInterval(heartbeat);
+    sink.readyState = CLOSED;
+    onClose(sink);
+  });
+  return sink;
+}
+
+/** End a stream whose setup failed after the hijack: Fastify no longer answers for it, so say why and close */
+export function failSseStream(raw: ServerResponse, error = 'internal_error') {
+  if (raw.writableEnded || raw.destroyed) return;
+  if (!raw.headersSent) raw.writeHead(500, { 'content-type': 'text/event-stream; charset=utf-8', 'cache-control': 'no-cache, no-transform' });
+  raw.end(`event: error\ndata: ${JSON.stringify({ error })}\n\n`);
+}
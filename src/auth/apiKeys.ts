@@ -0,0 +1,45 @@
+import * as crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getApiKeyByHash, insertApiKey } from '../config/db.js';
+
+/**
+ * API keys. A key is `oe_<43 base64url chars>` (32 random bytes) and is shown once, when created;
+ * Postgres only keeps its SHA-256 (the keys are random, so a fast hash is enough). Each key acts for
+ * exactly one user, and orders placed with it get that user_id.
+ */
+
+export const API_KEY_HEADER = 'x-api-key';
+const KEY_PREFIX = 'oe_';
+const KEY_RE = /^oe_[A-Za-z0-9_-]{43}$/;
+
+export type ApiKeyAuth = { keyId: string; userId: string; callbackUrl: string | null };
+
+/** Authentication is on unless API_AUTH=off (local development only) */
+export function apiAuthEnabled() {
+  return (process.env.API_AUTH ?? 'on').toLowerCase() !== 'off';
+}
+
+export function hashApiKey(key: string) {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/** `x-api-key: <key>` or `Authorization: Bearer <key>` */
+export function apiKeyFromHeaders(headers: Record<string, any>): string | null {
+  const direct = headers[API_KEY_HEADER];
+  if (typeof direct === 'string' && direct) return direct;
+  const m = /^Bearer\s+(\S+)$/i.exec(String(headers.authorization ?? ''));
+  return m ? m[1] : null;
+}
+
+export async function authenticateApiKey(key: string | null): Promise<ApiKeyAuth | null> {
+  if (!key || !KEY_RE.test(key)) return null;
+  const row = await getApiKeyByHash(hashApiKey(key));
+  return row ? { keyId: row.id, userId: row.user_id, callbackUrl: row.callback_url ?? null } : null;
+}
+
+/** Create a key for a user; the plaintext key is only ever returned here */
+export async function createApiKey(userId: string, name: string | null = null, callbackUrl: string | null = null) {
+  const key = KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+  const row = await insertApiKey({ id: uuidv4(), key_hash: hashApiKey(key), user_id: userId, name, callback_url: callbackUrl });
+  return { key, apiKey: row };
+}
@@ -0,0 +1,49 @@
+import { Redis } from 'ioredis';
+
+/**
+ * Token-bucket rate limit per API key, kept in Redis (`ratelimit:<keyId>`) so every server instance
+ * shares one bucket. The bucket holds up to RATE_LIMIT_BURST tokens and refills at
+ * RATE_LIMIT_PER_MIN tokens per minute; each request takes one.
+ */
+
+export type RateLimitConfig = { burst: number; perMinute: number };
+export type RateLimitResult = { allowed: boolean; remaining: number; retryAfterMs: number; limit: number };
+
+export function rateLimitConfig(): RateLimitConfig {
+  return {
+    burst: Number(process.env.RATE_LIMIT_BURST ?? 20),
+    perMinute: Number(process.env.RATE_LIMIT_PER_MIN ?? 60)
+  };
+}
+
+// refill, then take one token if there is one; atomic because it runs as a single script
+const TOKEN_BUCKET_LUA = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1])
+local ts = tonumber(state[2])
+if tokens == nil or ts == nil then
+  tokens = capacity
+  ts = now
+end
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+local allowed = 0
+local retry = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+else
+  retry = math.ceil((1 - tokens) / rate)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / rate) + 1000)
+return { allowed, math.floor(tokens), retry }
+`;
+
+export async function takeRateLimitToken(redis: Redis, keyId: string, cfg: RateLimitConfig = rateLimitConfig(), now = Date.now()): Promise<RateLimitResult> {
+  const ratePerMs = cfg.perMinute / 60_000;
+  const [allowed, remaining, retryAfterMs] = (await redis.eval(TOKEN_BUCKET_LUA, 1, `ratelimit:${keyId}`, cfg.burst, ratePerMs, now)) as number[];
+  return { allowed: allowed === 1, remaining: Number(remaining), retryAfterMs: Number(retryAfterMs), limit: cfg.burst };
+}
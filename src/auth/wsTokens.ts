@@ -0,0 +1,95 @@
+import * as crypto from 'crypto';
+
+/**
+ * WebSocket tokens. A token is `<kid>.<payload>.<sig>`: `payload` is base64url JSON holding the
+ * scope and an expiry (`exp`, unix seconds), and `sig` is an HMAC-SHA256 of `<kid>.<payload>` with
+ * the secret named by `kid`.
+ *
+ * Secrets come from WS_SECRETS (`kid:secret,kid:secret`), or from WS_SECRET under the kid `default`.
+ * The first secret signs new tokens and every listed secret verifies, so a secret is rotated by
+ * putting the new one first and dropping the old one once its tokens have expired.
+ */
+
+export type WsTokenScope = { orderId: string } | { userId: string };
+export type WsTokenClaims = WsTokenScope & { exp: number };
+
+type WsSecret = { kid: string; secret: Buffer };
+
+const DEFAULT_TTL_SEC = 3600;
+const MIN_SECRET_LENGTH = 16;
+
+let devSecret: WsSecret | null = null;
+
+function configuredSecrets(): WsSecret[] {
+  const list = (process.env.WS_SECRETS ?? '').split(',').map(s => s.trim()).filter(Boolean);
+  if (list.length) {
+    return list.map(entry => {
+      const i = entry.indexOf(':');
+      if (i <= 0 || i === entry.length - 1) throw new Error('WS_SECRETS entries must look like <kid>:<secret>');
+      return { kid: entry.slice(0, i), secret: Buffer.from(entry.slice(i + 1)) };
+    });
+  }
+  return process.env.WS_SECRET ? [{ kid: 'default', secret: Buffer.from(process.env.WS_SECRET) }] : [];
+}
+
+/** Outside production an unconfigured server gets a random per-process secret (tokens die with the process) */
+function wsSecrets(): WsSecret[] {
+  const secrets = configuredSecrets();
+  if (secrets.length) return secrets;
+  if (process.env.NODE_ENV === 'production') throw new Error('WS_SECRETS (or WS_SECRET) must be set in production');
+  if (!devSecret) {
+    devSecret = { kid: 'dev', secret: crypto.randomBytes(32) };
+    console.warn('[wsTokens] no WS_SECRETS / WS_SECRET configured; using a random secret for this process');
+  }
+  return [devSecret];
+}
+
+/** Startup check: throws in production when no secret is configured, or when a secret is too short */
+export function assertWsSecretsConfigured() {
+  const secrets = wsSecrets();
+  const weak = secrets.find(s => s.secret.length < MIN_SECRET_LENGTH);
+  if (weak && process.env.NODE_ENV === 'production') {
+    throw new Error(`WS secret "${weak.kid}" is shorter than ${MIN_SECRET_LENGTH} characters`);
+  }
+}
+
+export function wsTokenTtlSec() {
+  const ttl = Number(process.env.WS_TOKEN_TTL_SEC ?? DEFAULT_TTL_SEC);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_SEC;
+}
+
+function sign(secret: Buffer, data: string) {
+  return crypto.createHmac('sha256', secret).update(data).digest();
+}
+
+export function createWsToken(scope: WsTokenScope, now = Date.now()) {
+  const { kid, secret } = wsSecrets()[0];
+  const claims: WsTokenClaims = { ...scope, exp: Math.floor(now / 1000) + wsTokenTtlSec() };
+  const body = `${kid}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+  return `${body}.${sign(secret, body).toString('base64url')}`;
+}
+
+/** The token's claims if its signature checks out with a known secret and it has not expired, otherwise null */
+export function verifyWsToken(token: string | null | undefined, now = Date.now()): WsTokenClaims | null {
+  if (!token || token.length > 1024) return null;
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  const [kid, payload, sig] = parts;
+  const key = wsSecrets().find(s => s.kid === kid);
+  if (!key) return null;
+
+  const expected = sign(key.secret, `${kid}.${payload}`);
+  const given = Buffer.from(sig, 'base64url');
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null;
+
+  let claims: any;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (typeof claims?.exp !== 'number' || claims.exp * 1000 <= now) return null;
+  if (typeof claims.orderId === 'string') return { orderId: claims.orderId, exp: claims.exp };
+  if (typeof claims.userId === 'string') return { userId: claims.userId, exp: claims.exp };
+  return null;
+}
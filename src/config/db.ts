@@ -46,12 +46,29 @@ export async function insertOrder(o: {
   token_out: string;
   amount_in: string;
   slippage?: number;
+  status?: string;
+  limit_price?: string | null;
+  trigger_price?: string | null;
+  parent_id?: string | null;
+  slice_index?: number | null;
+  twap_slices?: number | null;
+  twap_duration_sec?: number | null;
+  quote_id?: string | null;
+  idempotency_key?: string | null;
+  request_hash?: string | null;
+  callback_url?: string | null;
+  dry_run?: boolean;
+  max_priority_fee_lamports?: number | null;
 }) {
   // NOTE: created_at and updated_at removed from column list because they default to now()
+  // rowCount is 0 when another request of the same user already inserted an order with the same idempotency_key
   const q = `
     INSERT INTO "order-engine".orders
-      (id, user_id, type, token_in, token_out, amount_in, slippage, status)
-    VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      (id, user_id, type, token_in, token_out, amount_in, slippage, status, limit_price, trigger_price,
+       parent_id, slice_index, twap_slices, twap_duration_sec, quote_id, idempotency_key, request_hash, callback_url, dry_run,
+       max_priority_fee_lamports)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+    ON CONFLICT ((COALESCE(user_id, '')), idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
   `;
   // wrap call with retry to handle transient connection hiccups
   return retry(async () => {
@@ -63,7 +80,19 @@ export async function insertOrder(o: {
       o.token_out,
       o.amount_in,
       o.slippage ?? 1.0,
-      'pending'
+      o.status ?? 'pending',
+      o.limit_price ?? null,
+      o.trigger_price ?? null,
+      o.parent_id ?? null,
+      o.slice_index ?? null,
+      o.twap_slices ?? null,
+      o.twap_duration_sec ?? null,
+      o.quote_id ?? null,
+      o.idempotency_key ?? null,
+      o.request_hash ?? null,
+      o.callback_url ?? null,
+      o.dry_run ?? false,
+      o.max_priority_fee_lamports ?? null
     ]);
   }, 4, 400);
 }
@@ -71,9 +100,16 @@ export async function insertOrder(o: {
 export async function updateOrderStatus(id: string, status: string, opts: {
   attemptsDelta?: number;
   error?: string | null;
+  errorCode?: string | null;
   txHash?: string | null;
-  executedPrice?: number | null;
+  executedPrice?: number | string | null;
   routing?: any | null;
+  // priority fees paid by the order's transactions; left unchanged when not given
+  priorityFeeLamports?: number | null;
+  // realized execution, as exact decimal strings (see execution/fills.ts)
+  executedAmountIn?: string | null;
+  executedAmountOut?: string | null;
+  realizedSlippageBps?: string | null;
 } = {}) {
   const attemptsDelta = opts.attemptsDelta ?? 0;
   const q = `
@@ -84,14 +120,182 @@ export async function updateOrderStatus(id: string, status: string, opts: {
         tx_hash = $5,
         executed_price = $6,
         routing_info = COALESCE(routing_info, '{}'::jsonb) || $7::jsonb,
+        error_code = $8,
+        priority_fee_lamports = COALESCE($9, priority_fee_lamports),
+        executed_amount_in = $10,
+        executed_amount_out = $11,
+        realized_slippage_bps = $12,
         updated_at = now()
-    WHERE id = $1
+    WHERE id = $1 AND status IS DISTINCT FROM 'cancelled'
   `;
   return retry(async () => {
-    return pool.query(q, [id, status, attemptsDelta, opts.error ?? null, opts.txHash ?? null, opts.executedPrice ?? null, JSON.stringify(opts.routing ?? {})]);
+    return pool.query(q, [id, status, attemptsDelta, opts.error ?? null, opts.txHash ?? null, opts.executedPrice ?? null, JSON.stringify(opts.routing ?? {}), opts.errorCode ?? null, opts.priorityFeeLamports ?? null,
+      opts.executedAmountIn ?? null, opts.executedAmountOut ?? null, opts.realizedSlippageBps ?? null]);
   }, 3, 400);
 }
 
+/** Record the order's current execution job, which cancellation removes from the queue */
+export async function setOrderJobId(id: string, jobId: string) {
+  const q = `UPDATE "order-engine".orders SET job_id = $2 WHERE id = $1`;
+  return retry(async () => {
+    await pool.query(q, [id, jobId]);
+  }, 3, 300);
+}
+
+/** The order's current execution job id; null for orders never enqueued */
+export async function getOrderJobId(id: string): Promise<string | null> {
+  const q = `SELECT job_id FROM "order-engine".orders WHERE id = $1`;
+  return retry(async () => {
+    const res = await pool.query(q, [id]);
+    return res.rows[0]?.job_id ?? null;
+  }, 3, 300);
+}
+
+/**
+ * Cancel an order if it is still in one of `fromStatuses`. Like transitionOrderStatus this is a
+ * compare-and-set, so it cannot race the worker's claimOrderForSubmission. Returns true on success.
+ */
+export async function markOrderCancelled(id: string, fromStatuses: string[]) {
+  const q = `
+    UPDATE "order-engine".orders
+    SET status = 'cancelled', updated_at = now()
+    WHERE id = $1 AND status = ANY($2::text[])
+    RETURNING id
+  `;
+  return retry(async () => {
+    const res = await pool.query(q, [id, fromStatuses]);
+    return (res.rowCount ?? 0) > 0;
+  }, 3, 300);
+}
+
+/**
+ * Move an order to `submitted` right before its transaction is sent, unless it was cancelled.
+ * Returns false when a cancellation won the race.
+ */
+export async function claimOrderForSubmission(id: string) {
+  const q = `
+    UPDATE "order-engine".orders
+    SET status = 'submitted', updated_at = now()
+    WHERE id = $1 AND status IS DISTINCT FROM 'cancelled'
+    RETURNING id
+  `;
+  return retry(async () => {
+    const res = await pool.query(q, [id]);
+    return (res.rowCount ?? 0) > 0;
+  }, 3, 300);
+}
+
+export type OrderExecution = {
+  order_id: string;
+  leg: string;
+  venue: string;
+  signature: string;
+  blockhash: string;
+  last_valid_block_height: string;
+  expected_out: string | null;
+  status: 'sent' | 'confirmed' | 'failed' | 'expired';
+};
+
+/**
+ * Record a transaction for an order leg before it is sent. Replaces an earlier row only once that
+ * transaction provably failed or expired, so returns false while one may still land (or has landed).
+ */
+export async function recordOrderExecution(e: Omit<OrderExecution, 'status'>) {
+  const q = `
+    INSERT INTO "order-engine".order_executions
+      (order_id, leg, venue, signature, blockhash, last_valid_block_height, expected_out, status)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, 'sent')
+    ON CONFLICT (order_id, leg) DO UPDATE
+      SET venue = EXCLUDED.venue, signature = EXCLUDED.signature, blockhash = EXCLUDED.blockhash,
+          last_valid_block_height = EXCLUDED.last_valid_block_height, expected_out = EXCLUDED.expected_out,
+          status = 'sent', updated_at = now()
+      WHERE order_executions.status IN ('failed', 'expired')
+    RETURNING order_id
+  `;
+  return retry(async () => {
+    const res = await pool.query(q, [e.order_id, e.leg, e.venue, e.signature, e.blockhash, e.last_valid_block_height, e.expected_out]);
+    return (res.rowCount ?? 0) > 0;
+  }, 3, 300);
+}
+
+/** Settle the recorded transaction of an order leg (matched by signature) */
+export async function settleOrderExecution(orderId: string, leg: string, signature: string, status: OrderExecution['status']) {
+  const q = `
+    UPDATE "order-engine".order_executions
+    SET status = $4, updated_at = now()
+    WHERE order_id = $1 AND leg = $2 AND signature = $3
+  `;
+  return retry(() => pool.query(q, [orderId, leg, signature, status]), 3, 300);
+}
+
+/** Transactions recorded for an order, one per leg */
+export async function getOrderExecutions(orderId: string): Promise<OrderExecution[]> {
+  const q = `
+    SELECT order_id, leg, venue, signature, blockhash, last_valid_block_height::text AS last_valid_block_height,
+           expected_out, status
+    FROM "order-engine".order_executions
+    WHERE order_id = $1
+    ORDER BY leg ASC
+  `;
+  return retry(async () => {
+    const res = await pool.query(q, [orderId]);
+    return res.rows;
+  }, 3, 300);
+}
+
+export type OrderEvent = { order_id: string; seq: number; status: string | null; payload: any; created_at: Date };
+
+/**
+ * Append an event to the order's log. The sequence number comes from a counter on the order row, so
+ * concurrent writers (a TWAP parent updated by several slices) are serialised by the row lock.
+ * Returns the event's seq, or null when the order does not exist.
+ */
+export async function appendOrderEvent(orderId: string, payload: any): Promise<number | null> {
+  const q = `
+    WITH next AS (
+      UPDATE "order-engine".orders SET last_event_seq = last_event_seq + 1
+      WHERE id = $1
+      RETURNING last_event_seq
+    )
+    INSERT INTO "order-engine".order_events (order_id, seq, status, payload)
+    SELECT $1, next.last_event_seq, $2, $3::jsonb FROM next
+    RETURNING seq
+  `;
+  return retry(async () => {
+    const res = await pool.query(q, [orderId, payload?.status ?? null, JSON.stringify(payload)]);
+    return res.rows[0]?.seq ?? null;
+  }, 3, 300);
+}
+
+/** The order's events after `afterSeq`, oldest first */
+export async function getOrderEvents(orderId: string, afterSeq = 0, limit = 500): Promise<OrderEvent[]> {
+  const q = `
+    SELECT order_id, seq, status, payload, created_at
+    FROM "order-engine".order_events
+    WHERE order_id = $1 AND seq > $2
+    ORDER BY seq ASC
+    LIMIT $3
+  `;
+  return retry(async () => {
+    const res = await pool.query(q, [orderId, afterSeq, limit]);
+    return res.rows;
+  }, 3, 300);
+}
+
+/** TWAP child orders of a parent, in slice order */
+export async function getChildOrders(parentId: string) {
+  const q = `
+    SELECT id, status, slice_index, amount_in::text AS amount_in
+    FROM "order-engine".orders
+    WHERE parent_id = $1
+    ORDER BY slice_index ASC
+  `;
+  return retry(async () => {
+    const res = await pool.query(q, [parentId]);
+    return res.rows;
+  }, 3, 300);
+}
+
 export async function setRoutingInfo(id: string, routing: any) {
   const q = `UPDATE "order-engine".orders SET routing_info = $2::jsonb, updated_at = now() WHERE id = $1`;
   return retry(async () => {
@@ -99,4 +303,384 @@ export async function setRoutingInfo(id: string, routing: any) {
   }, 3, 300);
 }
 
+/**
+ * Atomically move an order from one status to another.
+ * Returns true only for the caller that won the transition, so several trigger
+ * service instances can poll the same orders without double-enqueueing.
+ */
+export async function transitionOrderStatus(id: string, from: string, to: string) {
+  const q = `
+    UPDATE "order-engine".orders
+    SET status = $3, updated_at = now()
+    WHERE id = $1 AND status = $2
+    RETURNING id
+  `;
+  return retry(async () => {
+    const res = await pool.query(q, [id, from, to]);
+    return (res.rowCount ?? 0) > 0;
+  }, 3, 300);
+}
+
+/**
+ * One page of parked orders, oldest first. Pass the last row's `cursor_ts` / `id` as `after` to read
+ * the next page; a short page is the last one.
+ */
+export async function getParkedOrders(statuses: string[], limit = 100, after?: { createdAt: string; id: string } | null) {
+  const q = `
+    SELECT id, user_id, type, token_in, token_out, amount_in::text AS amount_in, slippage,
+           limit_price::text AS limit_price, trigger_price::text AS trigger_price,
+           max_priority_fee_lamports::text AS max_priority_fee_lamports, status, created_at,
+           created_at::text AS cursor_ts
+    FROM "order-engine".orders
+    WHERE status = ANY($1::text[])
+      AND ($3::timestamptz IS NULL OR (created_at, id) > ($3::timestamptz, $4::uuid))
+    ORDER BY created_at ASC, id ASC
+    LIMIT $2
+  `;
+  return retry(async () => {
+    const res = await pool.query(q, [statuses, limit, after?.createdAt ?? null, after?.id ?? null]);
+    return res.rows;
+  }, 3, 300);
+}
+
+/**
+ * Fire an armed stop-loss / take-profit order, recording the price that triggered it.
+ * Same compare-and-set semantics as transitionOrderStatus.
+ */
+export async function markOrderTriggered(id: string, observedPrice: string) {
+  const q = `
+    UPDATE "order-engine".orders
+    SET status = 'triggered', triggered_price = $2, triggered_at = now(), updated_at = now()
+    WHERE id = $1 AND status = 'armed'
+    RETURNING id
+  `;
+  return retry(async () => {
+    const res = await pool.query(q, [id, observedPrice]);
+    return (res.rowCount ?? 0) > 0;
+  }, 3, 300);
+}
+
+/** Record that every transaction of a landed order is finalized; the status stays as it is */
+export async function markOrderFinalized(id: string) {
+  const q = `
+    UPDATE "order-engine".orders
+    SET finalized_at = now(), updated_at = now()
+    WHERE id = $1 AND finalized_at IS NULL
+    RETURNING id
+  `;
+  return retry(async () => {
+    const res = await pool.query(q, [id]);
+    return (res.rowCount ?? 0) > 0;
+  }, 3, 300);
+}
+
+/**
+ * Add one TWAP slice outcome to the parent's running totals and return the new aggregates.
+ * Done in a single statement so concurrent slice jobs never lose an increment. The child's
+ * `slice_counted_at` is claimed compare-and-set first, so a slice reported twice (a retried job)
+ * is only counted once: the repeat gets the current totals back with `counted = false`.
+ */
+export async function applyTwapSliceResult(parentId: string, r: { childId: string; filled: boolean; amountIn: string; amountOut: string }) {
+  const q = `
+    WITH claimed AS (
+      UPDATE "order-engine".orders
+      SET slice_counted_at = now()
+      WHERE id = $6 AND parent_id = $1 AND slice_counted_at IS NULL
+      RETURNING id
+    ), counted AS (
+      UPDATE "order-engine".orders
+      SET filled_amount_in = COALESCE(filled_amount_in, 0) + $2::numeric,
+          filled_amount_out = COALESCE(filled_amount_out, 0) + $3::numeric,
+          slices_completed = COALESCE(slices_completed, 0) + $4,
+          slices_failed = COALESCE(slices_failed, 0) + $5,
+          updated_at = now()
+      WHERE id = $1 AND EXISTS (SELECT 1 FROM claimed)
+      RETURNING filled_amount_in, filled_amount_out, slices_completed, slices_failed, twap_slices, status
+    )
+    SELECT filled_amount_in::text AS filled_amount_in, filled_amount_out::text AS filled_amount_out,
+           slices_completed, slices_failed, twap_slices, status, true AS counted
+    FROM counted
+    UNION ALL
+    SELECT filled_amount_in::text, filled_amount_out::text, slices_completed, slices_failed, twap_slices, status, false
+    FROM "order-engine".orders
+    WHERE id = $1 AND NOT EXISTS (SELECT 1 FROM claimed)
+  `;
+  return retry(async () => {
+    const res = await pool.query(q, [
+      parentId,
+      r.filled ? r.amountIn : '0',
+      r.filled ? r.amountOut : '0',
+      r.filled ? 1 : 0,
+      r.filled ? 0 : 1,
+      r.childId
+    ]);
+    return res.rows[0] ?? null;
+  }, 3, 300);
+}
+
+// order resource returned by the query API; numerics as text so base-unit amounts stay exact
+const ORDER_COLUMNS = `
+  id, user_id, type, token_in, token_out, amount_in::text AS amount_in, slippage::text AS slippage, status,
+  attempts, error, error_code, tx_hash, executed_price::text AS executed_price,
+  executed_amount_in::text AS executed_amount_in, executed_amount_out::text AS executed_amount_out,
+  realized_slippage_bps::text AS realized_slippage_bps, routing_info,
+  limit_price::text AS limit_price, trigger_price::text AS trigger_price,
+  triggered_price::text AS triggered_price, triggered_at,
+  parent_id, slice_index, twap_slices, twap_duration_sec,
+  filled_amount_in::text AS filled_amount_in, filled_amount_out::text AS filled_amount_out,
+  slices_completed, slices_failed, quote_id, callback_url, dry_run,
+  max_priority_fee_lamports::text AS max_priority_fee_lamports, priority_fee_lamports::text AS priority_fee_lamports,
+  finalized_at, created_at, updated_at`;
+
+export async function getOrderById(id: string) {
+  const q = `SELECT ${ORDER_COLUMNS} FROM "order-engine".orders WHERE id = $1`;
+  return retry(async () => {
+    const res = await pool.query(q, [id]);
+    return res.rows[0] ?? null;
+  }, 3, 300);
+}
+
+/** Who hears about an order's events besides its order channel: its user and its webhook URL */
+export async function getOrderNotifyInfo(id: string): Promise<{ user_id: string | null; callback_url: string | null } | null> {
+  const q = `SELECT user_id, callback_url FROM "order-engine".orders WHERE id = $1`;
+  return retry(async () => {
+    const res = await pool.query(q, [id]);
+    return res.rows[0] ?? null;
+  }, 3, 300);
+}
+
+/** The order created with this Idempotency-Key, if any */
+/** The user's order for an Idempotency-Key; keys are scoped per user (null users share one scope) */
+export async function getOrderByIdempotencyKey(key: string, userId: string | null) {
+  const q = `
+    SELECT id, user_id, status, request_hash FROM "order-engine".orders
+    WHERE idempotency_key = $1 AND COALESCE(user_id, '') = COALESCE($2::text, '')
+  `;
+  return retry(async () => {
+    const res = await pool.query(q, [key, userId]);
+    return res.rows[0] ?? null;
+  }, 3, 300);
+}
+
+export type OrderListFilters = {
+  userId?: string;
+  statuses?: string[];
+  tokenIn?: string;
+  tokenOut?: string;
+  from?: string;
+  to?: string;
+  // keyset cursor: rows strictly older than (createdAt, id)
+  cursor?: { createdAt: string; id: string } | null;
+  limit: number;
+};
+
+/**
+ * Orders newest first. Returns one row more than `limit` when another page exists; the caller
+ * trims it and builds the next cursor from the last row's `cursor_ts` / `id`.
+ */
+export async function listOrders(f: OrderListFilters) {
+  const where: string[] = [];
+  const args: any[] = [];
+  const arg = (v: any) => {
+    args.push(v);
+    return `$${args.length}`;
+  };
+
+  if (f.userId) where.push(`user_id = ${arg(f.userId)}`);
+  if (f.statuses?.length) where.push(`status = ANY(${arg(f.statuses)}::text[])`);
+  if (f.tokenIn) where.push(`token_in = ${arg(f.tokenIn)}`);
+  if (f.tokenOut) where.push(`token_out = ${arg(f.tokenOut)}`);
+  if (f.from) where.push(`created_at >= ${arg(f.from)}::timestamptz`);
+  if (f.to) where.push(`created_at < ${arg(f.to)}::timestamptz`);
+  if (f.cursor) where.push(`(created_at, id) < (${arg(f.cursor.createdAt)}::timestamptz, ${arg(f.cursor.id)}::uuid)`);
+
+  const q = `
+    SELECT ${ORDER_COLUMNS}, created_at::text AS cursor_ts
+    FROM "order-engine".orders
+    ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${arg(f.limit + 1)}
+  `;
+  return retry(async () => {
+    const res = await pool.query(q, args);
+    return res.rows;
+  }, 3, 300);
+}
+
+/** Registered pools, optionally only the enabled ones */
+export async function listPools(opts: { enabledOnly?: boolean } = {}) {
+  const q = `
+    SELECT venue, pool_id, mint_a, mint_b, pool_type, enabled, created_at, updated_at
+    FROM "order-engine".pools
+    ${opts.enabledOnly ? 'WHERE enabled' : ''}
+    ORDER BY venue, pool_id
+  `;
+  return retry(async () => {
+    const res = await pool.query(q);
+    return res.rows;
+  }, 3, 300);
+}
+
+/** Insert a pool, or update mints / type / enabled flag of an existing (venue, pool_id) */
+export async function upsertPool(p: {
+  venue: string;
+  pool_id: string;
+  mint_a: string;
+  mint_b: string;
+  pool_type?: string | null;
+  enabled?: boolean;
+}) {
+  const q = `
+    INSERT INTO "order-engine".pools (venue, pool_id, mint_a, mint_b, pool_type, enabled)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    ON CONFLICT (venue, pool_id) DO UPDATE
+    SET mint_a = EXCLUDED.mint_a,
+        mint_b = EXCLUDED.mint_b,
+        pool_type = EXCLUDED.pool_type,
+        enabled = EXCLUDED.enabled,
+        updated_at = now()
+    RETURNING venue, pool_id, mint_a, mint_b, pool_type, enabled, created_at, updated_at
+  `;
+  return retry(async () => {
+    const res = await pool.query(q, [p.venue, p.pool_id, p.mint_a, p.mint_b, p.pool_type ?? null, p.enabled ?? true]);
+    return res.rows[0];
+  }, 3, 300);
+}
+
+/** Remove a pool from the registry; returns false if it was not registered */
+export async function deletePool(venue: string, poolId: string) {
+  const q = `DELETE FROM "order-engine".pools WHERE venue = $1 AND pool_id = $2`;
+  return retry(async () => {
+    const res = await pool.query(q, [venue, poolId]);
+    return (res.rowCount ?? 0) > 0;
+  }, 3, 300);
+}
+
+/** The active (not revoked) API key with this hash, if any */
+export async function getApiKeyByHash(keyHash: string) {
+  const q = `SELECT id, user_id, name, callback_url FROM "order-engine".api_keys WHERE key_hash = $1 AND revoked_at IS NULL`;
+  return retry(async () => {
+    const res = await pool.query(q, [keyHash]);
+    return res.rows[0] ?? null;
+  }, 3, 300);
+}
+
+export async function insertApiKey(k: { id: string; key_hash: string; user_id: string; name?: string | null; callback_url?: string | null }) {
+  const q = `
+    INSERT INTO "order-engine".api_keys (id, key_hash, user_id, name, callback_url)
+    VALUES ($1, $2, $3, $4, $5)
+    RETURNING id, user_id, name, callback_url, created_at, revoked_at
+  `;
+  return retry(async () => {
+    const res = await pool.query(q, [k.id, k.key_hash, k.user_id, k.name ?? null, k.callback_url ?? null]);
+    return res.rows[0];
+  }, 3, 300);
+}
+
+export async function listApiKeys(userId?: string) {
+  const q = `
+    SELECT id, user_id, name, callback_url, created_at, revoked_at
+    FROM "order-engine".api_keys
+    ${userId ? 'WHERE user_id = $1' : ''}
+    ORDER BY created_at DESC
+  `;
+  return retry(async () => {
+    const res = await pool.query(q, userId ? [userId] : []);
+    return res.rows;
+  }, 3, 300);
+}
+
+/** Revoke a key; returns false if it does not exist or was already revoked */
+export async function revokeApiKey(id: string) {
+  const q = `UPDATE "order-engine".api_keys SET revoked_at = now() WHERE id = $1 AND revoked_at IS NULL`;
+  return retry(async () => {
+    const res = await pool.query(q, [id]);
+    return (res.rowCount ?? 0) > 0;
+  }, 3, 300);
+}
+
+export type WebhookDelivery = {
+  id: string;
+  order_id: string;
+  url: string;
+  payload: any;
+  status: 'pending' | 'delivered' | 'dead';
+  attempts: number;
+  last_status_code: number | null;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+  delivered_at: Date | null;
+};
+
+const WEBHOOK_COLUMNS = `id, order_id, url, payload, status, attempts, last_status_code, last_error, created_at, updated_at, delivered_at`;
+
+/** Log a delivery before it is queued; false if this event was already logged for delivery */
+export async function insertWebhookDelivery(d: { id: string; order_id: string; url: string; payload: any }) {
+  const q = `
+    INSERT INTO "order-engine".webhook_deliveries (id, order_id, url, payload)
+    VALUES ($1, $2, $3, $4::jsonb)
+    ON CONFLICT (id) DO NOTHING
+  `;
+  return retry(async () => {
+    const res = await pool.query(q, [d.id, d.order_id, d.url, JSON.stringify(d.payload)]);
+    return (res.rowCount ?? 0) > 0;
+  }, 3, 300);
+}
+
+export async function getWebhookDelivery(id: string): Promise<WebhookDelivery | null> {
+  const q = `SELECT ${WEBHOOK_COLUMNS} FROM "order-engine".webhook_deliveries WHERE id = $1`;
+  return retry(async () => {
+    const res = await pool.query(q, [id]);
+    return res.rows[0] ?? null;
+  }, 3, 300);
+}
+
+/** Record one delivery attempt and the status it leaves the delivery in */
+export async function recordWebhookAttempt(id: string, status: WebhookDelivery['status'], opts: {
+  statusCode?: number | null;
+  error?: string | null;
+} = {}) {
+  const q = `
+    UPDATE "order-engine".webhook_deliveries
+    SET status = $2, attempts = attempts + 1, last_status_code = $3, last_error = $4, updated_at = now(),
+        delivered_at = CASE WHEN $2 = 'delivered' THEN now() ELSE delivered_at END
+    WHERE id = $1
+  `;
+  return retry(() => pool.query(q, [id, status, opts.statusCode ?? null, opts.error ?? null]), 3, 300);
+}
+
+/** Put a delivery back to pending for a redelivery; false if it does not exist */
+export async function resetWebhookDelivery(id: string) {
+  const q = `UPDATE "order-engine".webhook_deliveries SET status = 'pending', updated_at = now() WHERE id = $1`;
+  return retry(async () => {
+    const res = await pool.query(q, [id]);
+    return (res.rowCount ?? 0) > 0;
+  }, 3, 300);
+}
+
+export async function listWebhookDeliveries(filters: { status?: string; orderId?: string; limit?: number } = {}) {
+  const where: string[] = [];
+  const params: any[] = [];
+  if (filters.status) {
+    params.push(filters.status);
+    where.push(`status = $${params.length}`);
+  }
+  if (filters.orderId) {
+    params.push(filters.orderId);
+    where.push(`order_id = $${params.length}`);
+  }
+  params.push(Math.min(filters.limit ?? 100, 500));
+  const q = `
+    SELECT ${WEBHOOK_COLUMNS} FROM "order-engine".webhook_deliveries
+    ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+    ORDER BY created_at DESC
+    LIMIT $${params.length}
+  `;
+  return retry(async () => {
+    const res = await pool.query(q, params);
+    return res.rows as WebhookDelivery[];
+  }, 3, 300);
+}
+
 export default pool;
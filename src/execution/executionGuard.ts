@@ -0,0 +1,150 @@
+import { Connection, Keypair, SendTransactionError, TransactionExpiredBlockheightExceededError } from '@solana/web3.js';
+import BN from 'bn.js';
+import bs58 from 'bs58';
+import { recordOrderExecution, settleOrderExecution, getOrderExecutions, OrderExecution } from '../config/db.js';
+import { OrderError } from '../utils/errors.js';
+import { sendAndTrack, TrackedOutcome, TxCommitment } from './txSender.js';
+
+/**
+ * Exactly-once swap execution across BullMQ retries.
+ *
+ * Every transaction an order sends is recorded in `order_executions` (signature, blockhash and the
+ * block height after which it can no longer land) *before* it is sent. When a later attempt finds a
+ * record still `sent`, the earlier outcome was never observed: it looks the signature up and, if the
+ * transaction has not landed yet, keeps tracking it until it confirms or its blockhash expires. A
+ * swap is only sent again once the earlier one provably failed or expired.
+ */
+
+/** A sent transaction reaching `processed` or `confirmed` */
+export type TxStatusUpdate = { leg: string; signature: string; commitment: TxCommitment; slot: number };
+
+/** Identifies one order leg: `single`, `split:<i>` or `hop:<i>`; `onStatus` hears about its transaction's progress */
+export type ExecutionGuard = { orderId: string; leg?: string; onStatus?: (update: TxStatusUpdate) => void | Promise<void> };
+
+export function guardLeg(guard: ExecutionGuard | undefined, leg: string): ExecutionGuard | undefined {
+  return guard ? { ...guard, leg } : undefined;
+}
+
+export type ExecutionOutcome = 'confirmed' | 'failed' | 'expired';
+
+/** Legacy and versioned transactions differ in how they take an extra signature */
+function signWith(tx: any, wallet: Keypair) {
+  if (tx.version !== undefined) tx.sign([wallet]);
+  else tx.partialSign(wallet);
+}
+
+/** The fee payer's signature, which is the transaction id once sent */
+function firstSignature(tx: any): string {
+  const sig = tx.version !== undefined ? tx.signatures[0] : tx.signature;
+  if (!sig) throw new Error('transaction is not signed');
+  return bs58.encode(Buffer.from(sig));
+}
+
+function recentBlockhash(tx: any): string {
+  return tx.version !== undefined ? tx.message.recentBlockhash : tx.recentBlockhash;
+}
+
+/**
+ * Sign, record and send a swap transaction, then track it (see txSender.ts) until it confirms, fails
+ * or expires. The recorded lastValidBlockHeight comes from the latest blockhash at send time; the
+ * transaction's own blockhash is never newer, so once the chain passes that height it can no longer land.
+ */
+export async function sendGuardedTransaction(conn: Connection, wallet: Keypair, tx: any, opts: {
+  guard?: ExecutionGuard;
+  venue: string;
+  expectedOutBn?: BN | null;
+}) {
+  signWith(tx, wallet);
+  const signature = firstSignature(tx);
+  const blockhash = recentBlockhash(tx);
+  const { lastValidBlockHeight } = await conn.getLatestBlockhash('confirmed');
+  const leg = opts.guard?.leg ?? 'single';
+
+  if (opts.guard) {
+    const recorded = await recordOrderExecution({
+      order_id: opts.guard.orderId,
+      leg,
+      venue: opts.venue,
+      signature,
+      blockhash,
+      last_valid_block_height: String(lastValidBlockHeight),
+      expected_out: opts.expectedOutBn?.toString() ?? null
+    });
+    if (!recorded) {
+      throw new OrderError('execution_in_flight', `order ${opts.guard.orderId} leg ${leg} already has a transaction in flight; refusing to send another`);
+    }
+  }
+
+  console.info('[execution] sending transaction', { orderId: opts.guard?.orderId, leg, venue: opts.venue, signature, lastValidBlockHeight });
+  let tracked: TrackedOutcome;
+  try {
+    const onStatus = opts.guard?.onStatus;
+    tracked = await sendAndTrack(conn, tx.serialize(), {
+      signature,
+      lastValidBlockHeight,
+      onStatus: onStatus && ((commitment, slot) => onStatus({ leg, signature, commitment, slot }))
+    });
+  } catch (e) {
+    // rejected by the RPC's preflight: never forwarded, so it cannot land
+    if (e instanceof SendTransactionError && opts.guard) await settleOrderExecution(opts.guard.orderId, leg, signature, 'failed');
+    // anything else leaves the outcome unknown: the record stays `sent` for the retry
+    throw e;
+  }
+
+  if (opts.guard) await settleOrderExecution(opts.guard.orderId, leg, signature, tracked.outcome);
+  if (tracked.outcome === 'expired') throw new OrderError('blockhash_expired', `transaction ${signature} expired before confirming`);
+  if (tracked.outcome === 'failed') {
+    // the program logs let classifyError tell slippage or missing funds from other failures
+    throw Object.assign(new Error(`transaction ${signature} failed on-chain: ${JSON.stringify(tracked.err)}`), { logs: tracked.logs });
+  }
+  return signature;
+}
+
+/** Landed status of a signature, looking through history; null if the cluster has not seen it */
+async function landedOutcome(conn: Connection, signature: string): Promise<ExecutionOutcome | null> {
+  const { value: [status] } = await conn.getSignatureStatuses([signature], { searchTransactionHistory: true });
+  if (!status) return null;
+  if (status.err) return 'failed';
+  return status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized' ? 'confirmed' : null;
+}
+
+/**
+ * Decide what became of a transaction whose outcome was never observed. Waits while it can still
+ * land; throws (leaving it unresolved) if the RPC cannot tell.
+ */
+export async function resolveExecution(conn: Connection, e: OrderExecution): Promise<ExecutionOutcome> {
+  const landed = await landedOutcome(conn, e.signature);
+  if (landed) return landed;
+  try {
+    const res = await conn.confirmTransaction({
+      signature: e.signature,
+      blockhash: e.blockhash,
+      lastValidBlockHeight: Number(e.last_valid_block_height)
+    }, 'confirmed');
+    return res.value.err ? 'failed' : 'confirmed';
+  } catch (err) {
+    if (!(err instanceof TransactionExpiredBlockheightExceededError)) throw err;
+    // expired by block height; one last history lookup closes the race with a late confirmation
+    return (await landedOutcome(conn, e.signature)) ?? 'expired';
+  }
+}
+
+/**
+ * Settle every transaction an earlier attempt left `sent` and return the order's landed ones.
+ * A non-empty result means the order already swapped and must not be sent again.
+ */
+export async function resolvePriorExecutions(conn: Connection, orderId: string) {
+  const executions = await getOrderExecutions(orderId);
+  const landed: OrderExecution[] = [];
+  for (const e of executions) {
+    let status = e.status;
+    if (status === 'sent') {
+      console.info('[execution] resolving transaction from an earlier attempt', { orderId, leg: e.leg, signature: e.signature });
+      status = await resolveExecution(conn, e);
+      await settleOrderExecution(orderId, e.leg, e.signature, status);
+      console.info('[execution] earlier transaction resolved', { orderId, leg: e.leg, signature: e.signature, status });
+    }
+    if (status === 'confirmed') landed.push({ ...e, status });
+  }
+  return landed;
+}
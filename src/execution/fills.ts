@@ -0,0 +1,83 @@
+import { Connection, PublicKey, ParsedTransactionMeta, TokenBalance } from '@solana/web3.js';
+import { NATIVE_MINT } from '@solana/spl-token';
+import BN from 'bn.js';
+import { priceFromAmounts, formatScaled } from '../utils/price.js';
+
+/**
+ * What a swap actually did to the wallet, read from its confirmed transaction instead of the quote.
+ * `amountIn` is how much token_in left the wallet's token accounts and `amountOut` how much token_out
+ * arrived, from `preTokenBalances` / `postTokenBalances`. For native SOL that was wrapped and closed
+ * inside the swap the token balances show nothing, so the wallet's lamport change (net of the
+ * transaction fee) is used instead; it also includes any rent the swap paid or refunded.
+ */
+
+export type SwapFill = { amountInBn: BN; amountOutBn: BN };
+
+// bps to 4 decimal places
+const SLIPPAGE_DECIMALS = 4;
+
+function mintOf(token: string) {
+  return token === 'SOL' ? NATIVE_MINT.toBase58() : token;
+}
+
+/** Change of `owner`'s token balance of `mint` (post minus pre, summed over its token accounts) */
+function tokenDelta(pre: TokenBalance[], post: TokenBalance[], owner: string, mint: string) {
+  const sum = (balances: TokenBalance[]) => balances
+    .filter(b => b.owner === owner && b.mint === mint)
+    .reduce((acc, b) => acc.add(new BN(b.uiTokenAmount.amount)), new BN(0));
+  return sum(post).sub(sum(pre));
+}
+
+/** Amounts in and out for `owner`; `accountKeys` lists the transaction's accounts in meta order */
+export function fillFromBalances(meta: Pick<ParsedTransactionMeta, 'fee' | 'preBalances' | 'postBalances' | 'preTokenBalances' | 'postTokenBalances'>, accountKeys: PublicKey[], opts: { owner: PublicKey; tokenIn: string; tokenOut: string }): SwapFill {
+  const owner = opts.owner.toBase58();
+  const delta = (token: string) => {
+    const mint = mintOf(token);
+    const change = tokenDelta(meta.preTokenBalances ?? [], meta.postTokenBalances ?? [], owner, mint);
+    if (!change.isZero() || mint !== NATIVE_MINT.toBase58()) return change;
+    const i = accountKeys.findIndex(k => k.toBase58() === owner);
+    if (i < 0) return change;
+    // the fee payer's lamports also paid the fee, which is not part of the swap
+    return new BN(meta.postBalances[i]).sub(new BN(meta.preBalances[i])).add(new BN(i === 0 ? meta.fee : 0));
+  };
+  return { amountInBn: delta(opts.tokenIn).neg(), amountOutBn: delta(opts.tokenOut) };
+}
+
+/**
+ * Read the fill of a confirmed swap. The RPC may not serve a transaction for a moment after it
+ * confirmed, so the lookup is retried briefly; null if it still cannot be read.
+ */
+export async function readSwapFill(conn: Connection, signature: string, opts: { owner: PublicKey; tokenIn: string; tokenOut: string }): Promise<SwapFill | null> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    if (attempt) await new Promise(r => setTimeout(r, 500 * attempt));
+    try {
+      const tx = await conn.getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+      if (!tx?.meta) continue;
+      const keys = tx.transaction.message.getAccountKeys({ accountKeysFromLookups: tx.meta.loadedAddresses });
+      const accountKeys = [...keys.staticAccountKeys, ...(keys.accountKeysFromLookups?.writable ?? []), ...(keys.accountKeysFromLookups?.readonly ?? [])];
+      return fillFromBalances(tx.meta, accountKeys, opts);
+    } catch (e) {
+      console.warn('[fills] transaction lookup failed', { signature, attempt, error: String(e) });
+    }
+  }
+  console.warn('[fills] confirmed transaction not available; executed amounts left unknown (fillUnknown)', { signature });
+  return null;
+}
+
+/**
+ * Realized execution of an order against its quote: exact amounts, the realized price (out per in, in
+ * base units) and the realized slippage in bps. Slippage compares prices, so it holds when the
+ * amount actually spent differs from the quoted one; a negative value is a better price than quoted.
+ */
+export function realizedExecution(quote: { amountInBn: BN; amountOutBn: BN } | null, amountInBn: BN, amountOutBn: BN) {
+  const quoted = quote ? quote.amountOutBn.mul(amountInBn) : new BN(0);
+  const slippage = !quote || quoted.isZero()
+    ? null
+    : formatScaled(quoted.sub(amountOutBn.mul(quote.amountInBn)).muln(10_000).mul(new BN(10).pow(new BN(SLIPPAGE_DECIMALS))).div(quoted), SLIPPAGE_DECIMALS);
+  return {
+    amountIn: amountInBn.toString(),
+    amountOut: amountOutBn.toString(),
+    price: amountInBn.isZero() ? null : priceFromAmounts(amountOutBn, amountInBn),
+    slippageBps: slippage
+  };
+}
@@ -0,0 +1,157 @@
+import { AddressLookupTableAccount, ComputeBudgetProgram, Connection, PublicKey, Signer, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+
+/**
+ * Compute budget and priority fees for swap transactions. After its pre-flight simulation, each swap
+ * gets a SetComputeUnitLimit and a SetComputeUnitPrice instruction (replacing any the venue's SDK
+ * added) before it is signed:
+ *
+ * - the unit limit is the simulated usage plus COMPUTE_UNIT_MARGIN_PERCENT (COMPUTE_UNIT_LIMIT when
+ *   the simulation reported none);
+ * - the unit price comes from PRIORITY_FEE_STRATEGY: `fixed` uses PRIORITY_FEE_MICROLAMPORTS,
+ *   `percentile` takes the PRIORITY_FEE_PERCENTILE-th of getRecentPrioritizationFees for the
+ *   accounts the swap writes (the pool and its vaults), and `none` leaves the transaction as built;
+ * - the fee (unit limit x unit price) never exceeds the order's cap, `max_priority_fee_lamports`,
+ *   or PRIORITY_FEE_MAX_LAMPORTS; the unit price is lowered to fit.
+ *
+ * Changing the instructions voids any signature the SDK already added (e.g. for a temporary token
+ * account), so those signers are passed along and sign the budgeted transaction again.
+ */
+
+export type PriorityFeeStrategy = 'none' | 'fixed' | 'percentile';
+
+/** What one swap transaction pays in priority fees; `lamports` is charged on the limit, not on usage */
+export type PriorityFee = { strategy: PriorityFeeStrategy; computeUnits: number; microLamports: number; lamports: number };
+
+const STRATEGIES: PriorityFeeStrategy[] = ['none', 'fixed', 'percentile'];
+const MAX_COMPUTE_UNITS = 1_400_000;
+// the two compute budget instructions themselves
+const BUDGET_INSTRUCTION_UNITS = 300;
+// getRecentPrioritizationFees accepts at most this many accounts
+const MAX_FEE_ACCOUNTS = 128;
+
+function envNumber(name: string, fallback: number) {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export function priorityFeeStrategy(): PriorityFeeStrategy {
+  const strategy = (process.env.PRIORITY_FEE_STRATEGY ?? 'percentile').trim().toLowerCase();
+  if (!STRATEGIES.includes(strategy as PriorityFeeStrategy)) {
+    throw new Error(`PRIORITY_FEE_STRATEGY must be one of ${STRATEGIES.join(', ')}`);
+  }
+  return strategy as PriorityFeeStrategy;
+}
+
+/** The order's cap if it set one, else PRIORITY_FEE_MAX_LAMPORTS */
+export function priorityFeeCap(orderCap?: number | null) {
+  return orderCap ?? envNumber('PRIORITY_FEE_MAX_LAMPORTS', 1_000_000);
+}
+
+/** Nearest-rank percentile of the observed fees (0 when there are none) */
+export function percentileFee(fees: number[], percentile: number) {
+  if (!fees.length) return 0;
+  const sorted = [...fees].sort((a, b) => a - b);
+  const rank = Math.ceil((Math.min(Math.max(percentile, 0), 100) / 100) * sorted.length);
+  return sorted[Math.max(rank - 1, 0)];
+}
+
+export function computeUnitLimit(unitsConsumed: number | null) {
+  if (unitsConsumed == null || unitsConsumed <= 0) return Math.min(envNumber('COMPUTE_UNIT_LIMIT', 200_000), MAX_COMPUTE_UNITS);
+  const margin = envNumber('COMPUTE_UNIT_MARGIN_PERCENT', 20);
+  return Math.min(Math.ceil(unitsConsumed * (1 + margin / 100)) + BUDGET_INSTRUCTION_UNITS, MAX_COMPUTE_UNITS);
+}
+
+/** Unit price and limit for a swap, with the price lowered until the fee fits the cap */
+export function planPriorityFee(strategy: PriorityFeeStrategy, microLamports: number, computeUnits: number, maxLamports: number): PriorityFee {
+  let price = Math.floor(microLamports);
+  if (price * computeUnits > maxLamports * 1_000_000) price = Math.floor((maxLamports * 1_000_000) / computeUnits);
+  return { strategy, computeUnits, microLamports: price, lamports: Math.ceil((price * computeUnits) / 1_000_000) };
+}
+
+/** Accounts the transaction writes, other than the fee payer */
+function writableAccounts(tx: any): PublicKey[] {
+  const message = tx.version !== undefined ? tx.message : tx.compileMessage();
+  const keys: PublicKey[] = tx.version !== undefined ? message.staticAccountKeys : message.accountKeys;
+  return keys.filter((_, i) => i > 0 && message.isAccountWritable(i)).slice(0, MAX_FEE_ACCOUNTS);
+}
+
+async function unitPrice(conn: Connection, tx: any, strategy: PriorityFeeStrategy) {
+  if (strategy === 'fixed') return envNumber('PRIORITY_FEE_MICROLAMPORTS', 0);
+  const recent = await conn.getRecentPrioritizationFees({ lockedWritableAccounts: writableAccounts(tx) });
+  return percentileFee(recent.map(f => f.prioritizationFee), envNumber('PRIORITY_FEE_PERCENTILE', 75));
+}
+
+async function lookupTables(conn: Connection, tx: VersionedTransaction) {
+  const tables: AddressLookupTableAccount[] = [];
+  for (const lookup of tx.message.addressTableLookups) {
+    const { value } = await conn.getAddressLookupTable(lookup.accountKey);
+    if (!value) throw new Error(`address lookup table ${lookup.accountKey.toBase58()} not found`);
+    tables.push(value);
+  }
+  return tables;
+}
+
+/** Keys other than the fee payer that already signed the transaction */
+function extraSigners(tx: any): PublicKey[] {
+  if (tx.version === undefined) {
+    return tx.signatures.filter((s: any) => s.signature && !(tx.feePayer && s.publicKey.equals(tx.feePayer))).map((s: any) => s.publicKey);
+  }
+  const keys: PublicKey[] = tx.message.staticAccountKeys.slice(0, tx.message.header.numRequiredSignatures);
+  return keys.filter((_, i) => i > 0 && tx.signatures[i]?.some((b: number) => b !== 0));
+}
+
+/**
+ * Put the compute budget instructions at the front of a transaction. Legacy transactions are changed
+ * in place; a versioned transaction's message is rebuilt, so a new one is returned. Signatures other
+ * than the fee payer's are redone with `signers`; throws if one of them is missing.
+ */
+export async function applyComputeBudget(conn: Connection, tx: any, fee: PriorityFee, signers: Signer[] = []) {
+  const missing = extraSigners(tx).filter(key => !signers.some(s => s.publicKey.equals(key)));
+  if (missing.length) {
+    throw new Error(`cannot re-sign the budgeted transaction without ${missing.map(k => k.toBase58()).join(', ')}`);
+  }
+  const budget = [
+    ComputeBudgetProgram.setComputeUnitLimit({ units: fee.computeUnits }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: fee.microLamports })
+  ];
+  const isBudget = (ix: { programId: PublicKey }) => ix.programId.equals(ComputeBudgetProgram.programId);
+
+  if (tx.version === undefined) {
+    tx.instructions = [...budget, ...tx.instructions.filter((ix: any) => !isBudget(ix))];
+    if (signers.length) tx.partialSign(...signers);
+    return tx;
+  }
+  const tables = await lookupTables(conn, tx);
+  const message = TransactionMessage.decompile(tx.message, { addressLookupTableAccounts: tables });
+  message.instructions = [...budget, ...message.instructions.filter(ix => !isBudget(ix))];
+  const budgeted = new VersionedTransaction(message.compileToV0Message(tables));
+  if (signers.length) budgeted.sign(signers);
+  return budgeted;
+}
+
+/**
+ * Price and apply the compute budget for a simulated swap. Returns the transaction to sign (the same
+ * one with the `none` strategy) and the fee it pays, or null when the strategy is `none`.
+ */
+export async function withPriorityFee(conn: Connection, tx: any, opts: { unitsConsumed: number | null; maxLamports?: number | null; venue: string; signers?: Signer[] }) {
+  const strategy = priorityFeeStrategy();
+  if (strategy === 'none') return { tx, priorityFee: null as PriorityFee | null };
+
+  let microLamports: number;
+  try {
+    microLamports = await unitPrice(conn, tx, strategy);
+  } catch (e) {
+    // a fee estimate is not worth failing the swap over; send with the fixed price instead
+    console.warn('[priorityFees] recent prioritization fees unavailable; using PRIORITY_FEE_MICROLAMPORTS', { venue: opts.venue, error: String(e) });
+    microLamports = envNumber('PRIORITY_FEE_MICROLAMPORTS', 0);
+  }
+  const priorityFee = planPriorityFee(strategy, microLamports, computeUnitLimit(opts.unitsConsumed), priorityFeeCap(opts.maxLamports));
+  console.info('[priorityFees] compute budget', { venue: opts.venue, ...priorityFee });
+  return { tx: await applyComputeBudget(conn, tx, priorityFee, opts.signers), priorityFee };
+}
+
+/** Total priority fee of the legs that reported one */
+export function totalPriorityFeeLamports(legs: { priorityFee?: PriorityFee | null }[]) {
+  const fees = legs.map(l => l.priorityFee).filter((f): f is PriorityFee => !!f);
+  return fees.length ? fees.reduce((sum, f) => sum + f.lamports, 0) : null;
+}
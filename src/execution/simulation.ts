@@ -0,0 +1,79 @@
+import { Connection, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import { AccountLayout, getAssociatedTokenAddressSync, NATIVE_MINT } from '@solana/spl-token';
+import BN from 'bn.js';
+import { OrderError, classifyError } from '../utils/errors.js';
+
+/**
+ * Pre-flight simulation of swap transactions. Every swap the engine is about to send is simulated
+ * first; a failing simulation stops the order before anything reaches the cluster, and dry-run
+ * orders stop after it. The simulation also reports compute units used and how the wallet's
+ * token_out balance would change.
+ */
+
+export type SimulationResult = {
+  ok: boolean;
+  err: any;
+  unitsConsumed: number | null;
+  logs: string[];
+  // change of the wallet's token_out account, in base units; null when it cannot be read
+  outputChangeBn: BN | null;
+};
+
+/** JSON-friendly summary for events and routing_info */
+export function describeSimulation(sim: SimulationResult) {
+  return { ok: sim.ok, unitsConsumed: sim.unitsConsumed, outputChange: sim.outputChangeBn?.toString() ?? null };
+}
+
+function tokenAmount(data: Buffer | null): BN {
+  if (!data || data.length < AccountLayout.span) return new BN(0);
+  return new BN(AccountLayout.decode(data).amount.toString());
+}
+
+/** Versioned transactions simulate as they are; legacy ones are compiled into a v0-compatible message */
+async function toVersioned(conn: Connection, tx: any, owner: PublicKey): Promise<VersionedTransaction> {
+  if (tx.version !== undefined) return tx;
+  if (!tx.feePayer) tx.feePayer = owner;
+  if (!tx.recentBlockhash) tx.recentBlockhash = (await conn.getLatestBlockhash('confirmed')).blockhash;
+  return new VersionedTransaction(tx.compileMessage());
+}
+
+export async function simulateSwapTransaction(conn: Connection, tx: any, opts: { owner: PublicKey; tokenOut: string }): Promise<SimulationResult> {
+  const mint = opts.tokenOut === 'SOL' ? NATIVE_MINT : new PublicKey(opts.tokenOut);
+  const outAccount = getAssociatedTokenAddressSync(mint, opts.owner, true);
+  const before = await conn.getAccountInfo(outAccount, 'confirmed');
+
+  const { value } = await conn.simulateTransaction(await toVersioned(conn, tx, opts.owner), {
+    sigVerify: false,
+    // the built transaction's blockhash may be a few slots old by now; its outcome does not depend on it
+    replaceRecentBlockhash: true,
+    commitment: 'confirmed',
+    accounts: { encoding: 'base64', addresses: [outAccount.toBase58()] }
+  });
+
+  const after = value.accounts?.[0];
+  const outputChangeBn = after === undefined
+    ? null
+    : tokenAmount(after ? Buffer.from(after.data[0], 'base64') : null).sub(tokenAmount(before?.data ?? null));
+  return {
+    ok: !value.err,
+    err: value.err,
+    unitsConsumed: value.unitsConsumed ?? null,
+    logs: value.logs ?? [],
+    outputChangeBn
+  };
+}
+
+/**
+ * Simulate a swap transaction before it is sent. Throws when the simulation fails; the program
+ * logs decide the error code (slippage, insufficient funds, ...), anything else is `simulation_failed`.
+ */
+export async function preflightSwap(conn: Connection, tx: any, opts: { owner: PublicKey; tokenOut: string; venue: string }) {
+  const sim = await simulateSwapTransaction(conn, tx, opts);
+  console.info('[simulation] swap simulated', { venue: opts.venue, ...describeSimulation(sim), err: sim.err });
+  if (!sim.ok) {
+    const message = `${opts.venue} swap simulation failed: ${JSON.stringify(sim.err)}`;
+    const classified = classifyError(Object.assign(new Error(message), { logs: sim.logs }));
+    throw classified.code === 'unknown' ? new OrderError('simulation_failed', message) : classified;
+  }
+  return sim;
+}
@@ -0,0 +1,125 @@
+import { Connection, TransactionSignature } from '@solana/web3.js';
+import bs58 from 'bs58';
+
+/**
+ * Sends a signed transaction and follows it until it lands or can no longer land.
+ *
+ * The transaction is sent once with the RPC's preflight, then rebroadcast every TX_REBROADCAST_MS
+ * (without preflight, and with the RPC's own retries off) while it is unconfirmed: a transaction
+ * dropped by a leader is simply sent again. Its status is polled every TX_POLL_MS and reported as it
+ * moves through `processed` and `confirmed`. A status carrying an error ends tracking as `failed`,
+ * with the program logs attached; once the chain passes `lastValidBlockHeight` the transaction is
+ * `expired`. `waitForFinalized` follows landed transactions on to `finalized`.
+ */
+
+export type TxCommitment = 'processed' | 'confirmed' | 'finalized';
+
+export type TrackedOutcome =
+  | { outcome: 'confirmed'; slot: number | null }
+  | { outcome: 'failed'; slot: number | null; err: any; logs: string[] }
+  | { outcome: 'expired'; slot: null };
+
+const COMMITMENT_RANK: Record<TxCommitment, number> = { processed: 1, confirmed: 2, finalized: 3 };
+
+function envMs(name: string, fallback: number) {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+/** Program logs of a failed transaction, for error classification; empty if they cannot be read */
+async function failureLogs(conn: Connection, signature: string) {
+  try {
+    const tx = await conn.getTransaction(signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+    return tx?.meta?.logMessages ?? [];
+  } catch {
+    return [];
+  }
+}
+
+async function signatureStatus(conn: Connection, signature: string, searchTransactionHistory = false) {
+  const { value: [status] } = await conn.getSignatureStatuses([signature], { searchTransactionHistory });
+  return status ?? null;
+}
+
+/**
+ * Send `raw` and track `signature` until it is confirmed, fails on-chain or expires. Errors from the
+ * RPC while tracking are thrown: the outcome is then unknown, and the caller must not resend.
+ */
+export async function sendAndTrack(conn: Connection, raw: Buffer | Uint8Array, opts: {
+  signature: TransactionSignature;
+  lastValidBlockHeight: number;
+  onStatus?: (commitment: TxCommitment, slot: number) => void | Promise<void>;
+}): Promise<TrackedOutcome> {
+  const rebroadcastMs = envMs('TX_REBROADCAST_MS', 2000);
+  const pollMs = envMs('TX_POLL_MS', 500);
+  const { signature } = opts;
+
+  await conn.sendRawTransaction(raw);
+  let lastSentAt = Date.now();
+  let reached = 0;
+
+  for (;;) {
+    await sleep(pollMs);
+    const status = await signatureStatus(conn, signature);
+    if (status) {
+      if (status.err) {
+        console.warn('[txSender] transaction failed on-chain', { signature, slot: status.slot, err: status.err });
+        return { outcome: 'failed', slot: status.slot, err: status.err, logs: await failureLogs(conn, signature) };
+      }
+      const commitment = status.confirmationStatus ?? 'processed';
+      if (COMMITMENT_RANK[commitment] > reached) {
+        reached = COMMITMENT_RANK[commitment];
+        console.info('[txSender] transaction status', { signature, commitment, slot: status.slot });
+        // a failing listener must not end tracking: the outcome would then be unknown
+        await Promise.resolve(opts.onStatus?.(commitment, status.slot))
+          .catch(e => console.warn('[txSender] status listener failed', { signature, commitment, error: String(e) }));
+      }
+      if (reached >= COMMITMENT_RANK.confirmed) return { outcome: 'confirmed', slot: status.slot };
+    }
+
+    if ((await conn.getBlockHeight('confirmed')) > opts.lastValidBlockHeight) {
+      // one history lookup closes the race with a confirmation that arrived since the last poll
+      const late = await signatureStatus(conn, signature, true);
+      if (late?.err) return { outcome: 'failed', slot: late.slot, err: late.err, logs: await failureLogs(conn, signature) };
+      if (late && late.confirmationStatus !== 'processed') return { outcome: 'confirmed', slot: late.slot };
+      if (!late) {
+        console.warn('[txSender] transaction expired', { signature, lastValidBlockHeight: opts.lastValidBlockHeight });
+        return { outcome: 'expired', slot: null };
+      }
+      // processed in time: it confirms, or disappears with its fork and then counts as expired
+      continue;
+    }
+
+    if (Date.now() - lastSentAt >= rebroadcastMs) {
+      lastSentAt = Date.now();
+      await conn.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 })
+        .catch(e => console.warn('[txSender] rebroadcast failed', { signature, error: String(e) }));
+    }
+  }
+}
+
+/** Whether `id` is a real transaction signature (mock ids are not) */
+export function isTransactionSignature(id: string) {
+  try {
+    return bs58.decode(id).length === 64;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wait until every signature is finalized. Returns false if that does not happen within
+ * TX_FINALIZE_TIMEOUT_MS; a confirmed transaction can only be rolled back with its fork.
+ */
+export async function waitForFinalized(conn: Connection, signatures: string[]) {
+  const deadline = Date.now() + envMs('TX_FINALIZE_TIMEOUT_MS', 60_000);
+  const pollMs = envMs('TX_POLL_MS', 500);
+  while (Date.now() < deadline) {
+    const { value } = await conn.getSignatureStatuses(signatures, { searchTransactionHistory: true });
+    if (value.every(s => s?.confirmationStatus === 'finalized')) return true;
+    await sleep(Math.max(pollMs, 1000));
+  }
+  return false;
+}
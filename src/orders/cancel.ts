@@ -0,0 +1,134 @@
+import { Queue } from 'bullmq';
+import { Redis } from 'ioredis';
+import { getOrderById, getChildOrders, markOrderCancelled, getOrderExecutions, getOrderJobId } from '../config/db.js';
+import { publishOrderUpdate } from '../websocket/wsManager.js';
+import { recordTwapSliceResult } from './twap.js';
+
+/**
+ * Order cancellation, possible until the worker claims the order for submission.
+ *
+ * - Postgres decides: markOrderCancelled and the worker's claimOrderForSubmission are both
+ *   compare-and-set updates on the order row, so exactly one of them wins.
+ * - A job still waiting / delayed in BullMQ is removed (the order records its current job id).
+ * - A job already running sees the Redis flag `order:cancel:<id>` at its next stage boundary
+ *   (before routing, building and submission) and stops.
+ * - Cancelling a TWAP parent cancels every child that has not been submitted yet. The parent itself
+ *   is only cancelled when no slice filled or is still landing; otherwise it settles on its fills.
+ */
+
+// everything before `submitted`; `failed` only while a retry is still queued (checked below)
+export const CANCELLABLE_STATUSES = ['pending', 'routing', 'building', 'waiting', 'armed', 'triggered', 'scheduled', 'running'];
+const TOO_LATE_STATUSES = ['submitted', 'confirmed', 'partially_filled', 'simulated'];
+
+const CANCEL_FLAG_TTL_SEC = 24 * 60 * 60;
+const cancelFlagKey = (orderId: string) => `order:cancel:${orderId}`;
+
+/** What a TWAP parent had filled when its remaining slices were cancelled */
+export type TwapFilled = { slicesCompleted: number; filledAmountIn: string; filledAmountOut: string };
+
+export type CancelResult =
+  // status is `cancelled`, except for a TWAP parent that settles on the slices it filled
+  | { outcome: 'cancelled'; status: string; children?: string[]; filled?: TwapFilled }
+  | { outcome: 'too_late' | 'not_cancellable'; status: string }
+  | { outcome: 'not_found' };
+
+export async function isCancelRequested(redis: Redis, orderId: string) {
+  return (await redis.exists(cancelFlagKey(orderId))) > 0;
+}
+
+/** The order's current job; orders enqueued before job ids were recorded used the order id */
+async function findOrderJob(queue: Queue, orderId: string) {
+  return queue.getJob((await getOrderJobId(orderId)) ?? orderId);
+}
+
+/** Remove the order's job if it has not started; returns the job state seen (null if none) */
+async function removeQueuedJob(queue: Queue, orderId: string) {
+  const job = await findOrderJob(queue, orderId);
+  if (!job) return null;
+  const state = await job.getState();
+  if (state === 'waiting' || state === 'delayed' || state === 'prioritized' || state === 'waiting-children') {
+    await job.remove().catch((e: any) => console.warn('[cancel] job remove failed; relying on cancel flag', { orderId, error: String(e) }));
+  }
+  return state;
+}
+
+async function cancelOne(deps: { queue: Queue; redis: Redis }, orderId: string, status: string) {
+  let from = CANCELLABLE_STATUSES;
+  if (status === 'failed') {
+    // a failed attempt waiting for its retry can still be stopped; a final failure cannot
+    const job = await findOrderJob(deps.queue, orderId);
+    const state = job ? await job.getState() : null;
+    if (state !== 'delayed' && state !== 'waiting') return false;
+    // the failed attempt may have sent a swap that can still land; its retry has to settle it
+    if ((await getOrderExecutions(orderId)).some(e => e.status === 'sent' || e.status === 'confirmed')) return false;
+    from = [...CANCELLABLE_STATUSES, 'failed'];
+  }
+
+  const cancelled = await markOrderCancelled(orderId, from);
+  if (!cancelled) return false;
+  await deps.redis.set(cancelFlagKey(orderId), '1', 'EX', CANCEL_FLAG_TTL_SEC);
+
+  const jobState = await removeQueuedJob(deps.queue, orderId);
+  console.info('[cancel] order cancelled', { orderId, previousStatus: status, jobState });
+  await publishOrderUpdate(orderId, { orderId, status: 'cancelled', timestamp: new Date().toISOString(), meta: { previousStatus: status } });
+  return true;
+}
+
+/** Why an order could not be cancelled, from its status re-read after the failed update */
+async function refused(orderId: string, status: string): Promise<CancelResult> {
+  // re-read: the worker may have claimed the order between our read and the update
+  const current = (await getOrderById(orderId))?.status ?? status;
+  if (current === 'cancelled') return { outcome: 'cancelled', status: 'cancelled' };
+  return { outcome: TOO_LATE_STATUSES.includes(current) ? 'too_late' : 'not_cancellable', status: current };
+}
+
+/**
+ * Cancel the slices of a TWAP parent that have not been submitted. With no slice filled or still
+ * landing, the parent is cancelled too. Otherwise the cancelled slices count as failed ones, and the
+ * parent finishes as `partially_filled` once the submitted slices have settled.
+ */
+async function cancelTwap(deps: { queue: Queue; redis: Redis }, parent: any): Promise<CancelResult> {
+  if (!CANCELLABLE_STATUSES.includes(parent.status)) return refused(parent.id, parent.status);
+
+  const children = await getChildOrders(parent.id);
+  const cancelled: any[] = [];
+  for (const child of children) {
+    if (await cancelOne(deps, child.id, child.status).catch(() => false)) cancelled.push(child);
+  }
+  if (!cancelled.length) return { outcome: 'too_late', status: (await getOrderById(parent.id))?.status ?? parent.status };
+  const childIds = cancelled.map(c => c.id);
+
+  const others = children.filter(c => !childIds.includes(c.id));
+  if (others.every(c => c.status === 'failed' || c.status === 'cancelled') && await cancelOne(deps, parent.id, parent.status)) {
+    return { outcome: 'cancelled', status: 'cancelled', children: childIds };
+  }
+
+  for (const child of cancelled) {
+    await recordTwapSliceResult(parent.id, { childId: child.id, sliceIndex: child.slice_index ?? 0, filled: false, amountIn: child.amount_in, error: 'cancelled' })
+      .catch((e) => console.error('[cancel] failed to record cancelled slice', { orderId: child.id, error: String(e) }));
+  }
+  const settled = (await getOrderById(parent.id)) ?? parent;
+  const filled = {
+    slicesCompleted: settled.slices_completed ?? 0,
+    filledAmountIn: settled.filled_amount_in ?? '0',
+    filledAmountOut: settled.filled_amount_out ?? '0'
+  };
+  console.info('[cancel] twap slices cancelled; parent settles on its fills', { orderId: parent.id, status: settled.status, cancelled: childIds, ...filled });
+  return { outcome: 'cancelled', status: settled.status, children: childIds, filled };
+}
+
+export async function cancelOrder(deps: { queue: Queue; redis: Redis }, orderId: string): Promise<CancelResult> {
+  const order = await getOrderById(orderId);
+  if (!order) return { outcome: 'not_found' };
+  if (order.status === 'cancelled') return { outcome: 'cancelled', status: 'cancelled' };
+  if (order.type === 'twap') return cancelTwap(deps, order);
+
+  if (!(await cancelOne(deps, orderId, order.status))) return refused(orderId, order.status);
+
+  // a single TWAP slice cancelled on its own counts as a failed slice so the parent can still finish
+  if (order.parent_id) {
+    await recordTwapSliceResult(order.parent_id, { childId: orderId, sliceIndex: order.slice_index ?? 0, filled: false, amountIn: order.amount_in, error: 'cancelled' })
+      .catch((e) => console.error('[cancel] failed to record cancelled slice', { orderId, error: String(e) }));
+  }
+  return { outcome: 'cancelled', status: 'cancelled' };
+}
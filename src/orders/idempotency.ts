@@ -0,0 +1,49 @@
+import * as crypto from 'crypto';
+import { getOrderByIdempotencyKey } from '../config/db.js';
+
+/**
+ * Idempotent order submission. A client sends `Idempotency-Key: <key>`; the key and a hash of the
+ * request body are stored on the order, backed by a unique index on (user_id, idempotency_key).
+ * Repeating the request replays the original order, reusing the key with a different body is
+ * rejected. Keys are per user, so two users can pick the same key without colliding.
+ */
+
+export const IDEMPOTENCY_HEADER = 'idempotency-key';
+
+const KEY_RE = /^[\x21-\x7e]{1,255}$/;
+
+export function isValidIdempotencyKey(key: string) {
+  return KEY_RE.test(key);
+}
+
+function canonicalize(value: any): any {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    return Object.keys(value).sort().reduce((acc: any, k) => {
+      acc[k] = canonicalize(value[k]);
+      return acc;
+    }, {});
+  }
+  return value;
+}
+
+/** sha256 of the body with object keys sorted, so field order does not matter */
+export function requestHash(body: any) {
+  return crypto.createHash('sha256').update(JSON.stringify(canonicalize(body ?? {}))).digest('hex');
+}
+
+export type IdempotencyCheck =
+  | { kind: 'new' }
+  | { kind: 'replay'; orderId: string; status: string }
+  | { kind: 'mismatch'; orderId: string };
+
+/**
+ * Look up the user's earlier order for this key and decide whether the request replays it. Another
+ * user's orders are never looked at, so one user can neither replay nor learn the id of them.
+ */
+export async function checkIdempotencyKey(key: string, hash: string, userId: string | null = null): Promise<IdempotencyCheck> {
+  const existing = await getOrderByIdempotencyKey(key, userId);
+  if (!existing) return { kind: 'new' };
+  if (existing.request_hash !== hash) return { kind: 'mismatch', orderId: existing.id };
+  return { kind: 'replay', orderId: existing.id, status: existing.status };
+}
@@ -0,0 +1,93 @@
+import { OrderListFilters } from '../config/db.js';
+
+/**
+ * Query-string parsing and cursors for GET /api/orders.
+ *
+ * Cursors are opaque to clients: base64url of `<created_at>|<id>` of the last order on the page.
+ * created_at is kept as Postgres rendered it so no microseconds are lost on the way back.
+ */
+
+export const ORDERS_DEFAULT_LIMIT = 50;
+export const ORDERS_MAX_LIMIT = 200;
+
+// Postgres timestamptz text, e.g. 2026-10-19 12:00:00.123456+00
+const TIMESTAMP_RE = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(\.\d+)?([+-]\d{2}(:?\d{2})?|Z)?$/;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isOrderId(value: any) {
+  return typeof value === 'string' && UUID_RE.test(value);
+}
+
+export function encodeOrderCursor(createdAt: string, id: string) {
+  return Buffer.from(`${createdAt}|${id}`, 'utf8').toString('base64url');
+}
+
+export function decodeOrderCursor(cursor: string): { createdAt: string; id: string } | null {
+  const raw = Buffer.from(cursor, 'base64url').toString('utf8');
+  const sep = raw.lastIndexOf('|');
+  if (sep <= 0) return null;
+  const createdAt = raw.slice(0, sep);
+  const id = raw.slice(sep + 1);
+  if (!isOrderId(id) || !TIMESTAMP_RE.test(createdAt)) return null;
+  return { createdAt, id };
+}
+
+function parseDate(value: any) {
+  if (value == null || value === '') return undefined;
+  const ms = Date.parse(String(value));
+  return Number.isNaN(ms) ? null : new Date(ms).toISOString();
+}
+
+/** Validate GET /api/orders query params; returns the filters or the failing field and why */
+export function parseOrderListQuery(query: any): { filters: OrderListFilters } | { field: string; error: string } {
+  const q = query ?? {};
+
+  let limit = ORDERS_DEFAULT_LIMIT;
+  if (q.limit != null && q.limit !== '') {
+    limit = Number(q.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > ORDERS_MAX_LIMIT) {
+      return { field: 'limit', error: `must be an integer between 1 and ${ORDERS_MAX_LIMIT}` };
+    }
+  }
+
+  const from = parseDate(q.from);
+  const to = parseDate(q.to);
+  if (from === null) return { field: 'from', error: 'must be an ISO-8601 date' };
+  if (to === null) return { field: 'to', error: 'must be an ISO-8601 date' };
+
+  let cursor = null;
+  if (q.cursor) {
+    cursor = decodeOrderCursor(String(q.cursor));
+    if (!cursor) return { field: 'cursor', error: 'is not a valid cursor' };
+  }
+
+  // status=confirmed,failed or repeated status params
+  const statuses = ([] as string[]).concat(q.status ?? [])
+    .flatMap((s: string) => String(s).split(','))
+    .map(s => s.trim())
+    .filter(Boolean);
+
+  return {
+    filters: {
+      userId: q.user_id || undefined,
+      statuses: statuses.length ? statuses : undefined,
+      tokenIn: q.token_in || undefined,
+      tokenOut: q.token_out || undefined,
+      from,
+      to,
+      cursor,
+      limit
+    }
+  };
+}
+
+/** Trim the look-ahead row from listOrders and build the next cursor */
+export function toOrderPage(rows: any[], limit: number) {
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+  const last = page[page.length - 1];
+  return {
+    orders: page.map(({ cursor_ts, ...order }) => order),
+    nextCursor: hasMore && last ? encodeOrderCursor(last.cursor_ts, last.id) : null
+  };
+}
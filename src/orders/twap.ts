@@ -0,0 +1,183 @@
+import { Queue } from 'bullmq';
+import BN from 'bn.js';
+import { v4 as uuidv4 } from 'uuid';
+import { insertOrder, applyTwapSliceResult, updateOrderStatus } from '../config/db.js';
+import { enqueueOrderExecution } from '../queue/orderQueue.js';
+import { publishOrderUpdate } from '../websocket/wsManager.js';
+import { priceFromAmounts } from '../utils/price.js';
+
+/**
+ * TWAP orders: a parent order (type `twap`) is split into `slices` child orders (type `twap_slice`)
+ * spread evenly over `duration` seconds. Each child is an ordinary market order executed by the
+ * worker as a delayed BullMQ job; fills are reported back to the parent, whose WebSocket channel
+ * receives a `slice_filled` / `slice_failed` event per child and a final summary.
+ */
+
+export const TWAP_MAX_SLICES = Number(process.env.TWAP_MAX_SLICES ?? 100);
+
+export type TwapSlice = { index: number; amountIn: string; delayMs: number };
+
+/**
+ * Split amountIn into `slices` parts (remainder spread over the first slices so the sum is exact)
+ * and space them evenly across the duration, first slice immediately.
+ */
+export function planTwapSlices(amountIn: string, slices: number, durationMs: number): TwapSlice[] {
+  if (!Number.isInteger(slices) || slices < 1) throw new Error('slices must be a positive integer');
+  const total = new BN(amountIn);
+  const n = new BN(slices);
+  const base = total.div(n);
+  const remainder = total.mod(n).toNumber();
+  if (base.isZero()) throw new Error('amount_in is too small for the requested number of slices');
+
+  const interval = durationMs / slices;
+  return Array.from({ length: slices }, (_, i) => ({
+    index: i,
+    amountIn: (i < remainder ? base.addn(1) : base).toString(),
+    delayMs: Math.floor(i * interval)
+  }));
+}
+
+/**
+ * Persist the parent and its children, then schedule one delayed execution job per slice.
+ * Returns null, creating nothing, if the parent's idempotency_key is already taken.
+ */
+export async function createTwapOrder(queue: Queue, o: {
+  id: string;
+  user_id?: string | null;
+  token_in: string;
+  token_out: string;
+  amount_in: string;
+  slippage: number;
+  slices: number;
+  durationSec: number;
+  idempotency_key?: string | null;
+  request_hash?: string | null;
+  callback_url?: string | null;
+  // applies to each slice, which is an order of its own
+  max_priority_fee_lamports?: number | null;
+}) {
+  const plan = planTwapSlices(o.amount_in, o.slices, o.durationSec * 1000);
+
+  const inserted = await insertOrder({
+    id: o.id,
+    user_id: o.user_id ?? null,
+    type: 'twap',
+    token_in: o.token_in,
+    token_out: o.token_out,
+    amount_in: o.amount_in,
+    slippage: o.slippage,
+    status: 'running',
+    twap_slices: o.slices,
+    twap_duration_sec: o.durationSec,
+    idempotency_key: o.idempotency_key ?? null,
+    request_hash: o.request_hash ?? null,
+    callback_url: o.callback_url ?? null,
+    max_priority_fee_lamports: o.max_priority_fee_lamports ?? null
+  });
+  // a concurrent request with the same Idempotency-Key created the parent first
+  if (inserted.rowCount === 0) return null;
+
+  const children: { orderId: string; index: number; amountIn: string; delayMs: number }[] = [];
+  for (const slice of plan) {
+    const childId = uuidv4();
+    await insertOrder({
+      id: childId,
+      user_id: o.user_id ?? null,
+      type: 'twap_slice',
+      token_in: o.token_in,
+      token_out: o.token_out,
+      amount_in: slice.amountIn,
+      slippage: o.slippage,
+      status: 'scheduled',
+      parent_id: o.id,
+      slice_index: slice.index,
+      callback_url: o.callback_url ?? null,
+      max_priority_fee_lamports: o.max_priority_fee_lamports ?? null
+    });
+    await enqueueOrderExecution(queue, {
+      orderId: childId,
+      token_in: o.token_in,
+      token_out: o.token_out,
+      amount_in: slice.amountIn,
+      slippage: o.slippage,
+      parent_id: o.id,
+      slice_index: slice.index,
+      max_priority_fee_lamports: o.max_priority_fee_lamports ?? null
+    }, { delayMs: slice.delayMs });
+    children.push({ orderId: childId, ...slice });
+  }
+
+  console.info('[twap] parent order scheduled', { orderId: o.id, slices: o.slices, durationSec: o.durationSec });
+  await publishOrderUpdate(o.id, {
+    orderId: o.id,
+    status: 'running',
+    timestamp: new Date().toISOString(),
+    meta: { type: 'twap', slices: o.slices, durationSec: o.durationSec, children }
+  });
+  return children;
+}
+
+/**
+ * Report a finished child to its parent. Called by the worker once a slice is confirmed, or once
+ * it has failed for the last time. Publishes progress and, after the last slice, the summary.
+ */
+export async function recordTwapSliceResult(parentId: string, r: {
+  childId: string;
+  sliceIndex: number;
+  filled: boolean;
+  // null for a filled slice whose swap could not be read back; it adds nothing to the totals
+  amountIn: string | null;
+  amountOut?: string | null;
+  txHash?: string | null;
+  error?: string | null;
+}) {
+  const agg = await applyTwapSliceResult(parentId, { childId: r.childId, filled: r.filled, amountIn: r.amountIn ?? '0', amountOut: r.amountOut ?? '0' });
+  if (!agg) {
+    console.warn('[twap] parent order not found for slice', { parentId, childId: r.childId });
+    return;
+  }
+  const done = agg.slices_completed + agg.slices_failed >= agg.twap_slices;
+  if (!agg.counted) {
+    // a retried slice job: its outcome is already in the totals. Only finish the parent if the
+    // attempt that counted it stopped before doing so.
+    console.info('[twap] slice already counted', { parentId, childId: r.childId });
+    if (!done || agg.status !== 'running') return;
+  }
+
+  const filledIn = new BN(agg.filled_amount_in ?? '0');
+  const filledOut = new BN(agg.filled_amount_out ?? '0');
+  const averagePrice = filledIn.isZero() ? null : priceFromAmounts(filledOut, filledIn);
+  const progress = {
+    slicesCompleted: agg.slices_completed,
+    slicesFailed: agg.slices_failed,
+    slicesTotal: agg.twap_slices,
+    filledAmountIn: filledIn.toString(),
+    filledAmountOut: filledOut.toString(),
+    averagePrice
+  };
+
+  if (agg.counted) {
+    await publishOrderUpdate(parentId, {
+      orderId: parentId,
+      status: r.filled ? 'slice_filled' : 'slice_failed',
+      timestamp: new Date().toISOString(),
+      slice: { orderId: r.childId, index: r.sliceIndex, amountIn: r.amountIn, amountOut: r.amountOut ?? null, txHash: r.txHash ?? null, error: r.error ?? null },
+      progress
+    });
+  }
+  if (!done) return;
+
+  const finalStatus = agg.slices_failed === 0 ? 'confirmed' : (agg.slices_completed > 0 ? 'partially_filled' : 'failed');
+  console.info('[twap] parent order finished', { parentId, finalStatus, ...progress });
+  await updateOrderStatus(parentId, finalStatus, {
+    executedPrice: averagePrice,
+    error: agg.slices_failed > 0 ? `${agg.slices_failed} of ${agg.twap_slices} slices failed` : null,
+    routing: { twap: progress }
+  });
+  await publishOrderUpdate(parentId, {
+    orderId: parentId,
+    status: finalStatus,
+    timestamp: new Date().toISOString(),
+    summary: progress
+  });
+}
@@ -0,0 +1,56 @@
+import { Queue } from 'bullmq';
+import { LockedQuote } from '../quotes/firmQuotes.js';
+import { setOrderJobId } from '../config/db.js';
+
+export const ORDER_QUEUE_NAME = 'orders';
+
+/** Payload carried by every `execute` job on the orders queue */
+export type OrderJobData = {
+  orderId: string;
+  token_in: string;
+  token_out: string;
+  amount_in: string;
+  slippage?: number;
+  // set for limit orders: the worker re-checks it against the fresh quote before swapping
+  limit_price?: string | null;
+  // set for TWAP child orders so the worker can report fills back to the parent
+  parent_id?: string | null;
+  slice_index?: number | null;
+  // set for orders placed from a firm quote: execution is locked to its venue / pool and min out
+  quote?: LockedQuote | null;
+  // dry-run orders are simulated and end as `simulated` without sending a transaction
+  dry_run?: boolean;
+  // cap on the order's total priority fee (see execution/priorityFees.ts)
+  max_priority_fee_lamports?: number | null;
+};
+
+// shared by the HTTP server and the trigger service so both enqueue identically
+export const ORDER_JOB_OPTIONS = {
+  attempts: 3,
+  backoff: { type: 'exponential', delay: 1000 },
+  removeOnComplete: true,
+};
+
+/**
+ * Enqueue an order for execution by the worker. `delayMs` schedules the job for later (used for
+ * TWAP slices).
+ *
+ * Every enqueue gets a fresh job id: an order can be enqueued again (a limit order parked back in
+ * `waiting` and re-triggered) while its previous job is still completing or kept as failed, and
+ * BullMQ would silently drop a job that reuses the id. The current job id is stored on the order
+ * so cancellation can find and remove it.
+ */
+export async function enqueueOrderExecution(queue: Queue, data: OrderJobData, opts: { delayMs?: number } = {}) {
+  const job = await queue.add('execute', data, {
+    ...ORDER_JOB_OPTIONS,
+    jobId: orderJobId(data.orderId),
+    ...(opts.delayMs ? { delay: opts.delayMs } : {}),
+  });
+  await setOrderJobId(data.orderId, job.id!);
+  return job;
+}
+
+/** BullMQ allows a ':' in a custom id only as `a:b:c` */
+export function orderJobId(orderId: string) {
+  return `${orderId}:execute:${Date.now()}`;
+}
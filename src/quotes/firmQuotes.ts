@@ -0,0 +1,84 @@
+import { Redis } from 'ioredis';
+import BN from 'bn.js';
+import { v4 as uuidv4 } from 'uuid';
+import { OrderError } from '../utils/errors.js';
+
+/**
+ * Firm quotes: a previewed quote the client can execute by id. Stored in Redis under `quote:<id>`
+ * with a TTL of QUOTE_TTL_SEC (default 30). An order placed with a quoteId is validated against the
+ * quote (peekFirmQuote), which is only taken (and deleted) once the order is accepted. The order is
+ * locked to the quoted pools - one for a direct quote, one per hop for a multi-hop quote - and must
+ * deliver at least the quoted min out.
+ */
+
+export type FirmQuote = {
+  quoteId: string;
+  venue: string;
+  // null for a multi-hop quote, which is routed through `path` instead
+  poolId: string | null;
+  path?: string[] | null;
+  // every pool the quoted route trades through; execution may not use any other
+  pools: { venue: string; poolId: string }[];
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  expectedOut: string;
+  minOut: string;
+  slippage: number;
+  createdAt: number;
+  expiresAt: number;
+};
+
+/** What the worker needs from a firm quote; carried on the job */
+export type LockedQuote = Pick<FirmQuote, 'quoteId' | 'venue' | 'poolId' | 'minOut' | 'expiresAt'> & Partial<Pick<FirmQuote, 'pools'>>;
+
+const quoteKey = (quoteId: string) => `quote:${quoteId}`;
+
+export function quoteTtlSec() {
+  return Number(process.env.QUOTE_TTL_SEC ?? 30);
+}
+
+export async function createFirmQuote(redis: Redis, q: Omit<FirmQuote, 'quoteId' | 'createdAt' | 'expiresAt'>, ttlSec = quoteTtlSec()) {
+  const now = Date.now();
+  const quote: FirmQuote = { ...q, quoteId: uuidv4(), createdAt: now, expiresAt: now + ttlSec * 1000 };
+  await redis.set(quoteKey(quote.quoteId), JSON.stringify(quote), 'EX', ttlSec);
+  return quote;
+}
+
+function parseQuote(raw: string | null | undefined) {
+  if (!raw) return null;
+  const quote = JSON.parse(raw) as FirmQuote;
+  return quote.expiresAt > Date.now() ? quote : null;
+}
+
+/** Read a firm quote without taking it, to validate an order before it is accepted */
+export async function peekFirmQuote(redis: Redis, quoteId: string): Promise<FirmQuote | null> {
+  return parseQuote(await redis.get(quoteKey(quoteId)));
+}
+
+/**
+ * Fetch and delete a firm quote so it backs a single order.
+ * Returns null when it never existed or its TTL has passed.
+ */
+export async function takeFirmQuote(redis: Redis, quoteId: string): Promise<FirmQuote | null> {
+  const res = await redis.multi().get(quoteKey(quoteId)).del(quoteKey(quoteId)).exec();
+  return parseQuote(res?.[0]?.[1] as string | null | undefined);
+}
+
+export function lockQuote(q: FirmQuote): LockedQuote {
+  return { quoteId: q.quoteId, venue: q.venue, poolId: q.poolId, pools: q.pools, minOut: q.minOut, expiresAt: q.expiresAt };
+}
+
+/** Expiry check, done before spending an RPC round trip on a fresh quote */
+export function assertQuoteNotExpired(q: LockedQuote, now = Date.now()) {
+  if (now > q.expiresAt) {
+    throw new OrderError('quote_expired', `quote ${q.quoteId} expired at ${new Date(q.expiresAt).toISOString()}`);
+  }
+}
+
+/** The fresh quote must still deliver the locked min out */
+export function assertQuoteHonored(q: LockedQuote, freshOutBn: BN) {
+  if (freshOutBn.lt(new BN(q.minOut))) {
+    throw new OrderError('price_moved', `fresh quote ${freshOutBn.toString()} is below the quoted min out ${q.minOut}`);
+  }
+}
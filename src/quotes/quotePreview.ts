@@ -0,0 +1,107 @@
+import { Connection } from '@solana/web3.js';
+import BN from 'bn.js';
+import { VenueQuote, getAllQuotes, getBestQuote, envUseMock } from '../router/dexRouter.js';
+import { getBestMultiHopQuote } from '../router/multiHop.js';
+import { PoolInfo } from '../router/pools.js';
+import { getPoolRegistry, directPools } from '../router/poolRegistry.js';
+import { priceFromAmounts } from '../utils/price.js';
+
+/**
+ * Quote preview: every venue's quote for a pair, without placing an order. Uses the same candidate
+ * pools and adapters as getBestQuote; nothing is enqueued or persisted.
+ */
+
+export type QuotePreviewEntry = {
+  venue: string;
+  poolId: string | null;
+  expectedOut: string | null;
+  minOut: string | null;
+  fee: string | null;
+  priceImpactPct: number | null;
+  price: string | null;
+  chosen: boolean;
+  path?: string[];
+  // the pool of each hop, for a multi-hop entry
+  hops?: { venue: string; poolId: string }[];
+  error?: string;
+};
+
+/** Minimum acceptable output for a slippage tolerance in percent (1.0 = 1%) */
+export function minOutAtSlippage(outBn: BN, slippagePercent: number) {
+  const bps = Math.min(Math.max(Math.round(slippagePercent * 100), 0), 10000);
+  return outBn.muln(10000 - bps).divn(10000);
+}
+
+function toEntry(r: VenueQuote, amountInBn: BN, slippagePercent: number): QuotePreviewEntry {
+  const q = r.quote;
+  if (!q) {
+    return { venue: r.venue, poolId: r.poolId, expectedOut: null, minOut: null, fee: null, priceImpactPct: null, price: null, chosen: false, error: r.error };
+  }
+  return {
+    venue: r.venue,
+    poolId: r.poolId,
+    expectedOut: q.outAmountBn.toString(),
+    minOut: minOutAtSlippage(q.outAmountBn, slippagePercent).toString(),
+    fee: q.feeBn?.toString() ?? q.details?.fee ?? null,
+    priceImpactPct: q.priceImpact != null ? Number((q.priceImpact * 100).toFixed(4)) : null,
+    price: priceFromAmounts(q.outAmountBn, amountInBn),
+    chosen: false
+  };
+}
+
+export async function previewQuotes(params: {
+  conn: Connection;
+  amountInBn: BN;
+  tokenIn: string;
+  tokenOut: string;
+  slippagePercent: number;
+  pools?: PoolInfo[];
+}) {
+  const { conn, amountInBn, tokenIn, tokenOut, slippagePercent } = params;
+  let entries: QuotePreviewEntry[];
+
+  if (envUseMock()) {
+    const q = await getBestQuote({ conn, amountInBn, tokenIn, tokenOut });
+    entries = [toEntry({ venue: q.dex, poolId: q.poolId ?? 'mock', quote: q }, amountInBn, slippagePercent)];
+  } else {
+    const pools = params.pools ?? await getPoolRegistry();
+    const direct = directPools(pools, tokenIn, tokenOut);
+    entries = (await getAllQuotes({ conn, amountInBn, tokenIn, tokenOut, pools: direct })).map(r => toEntry(r, amountInBn, slippagePercent));
+
+    // no direct pool: show the multi-hop path the router would take instead
+    if (direct.length === 0) {
+      const route = await getBestMultiHopQuote({ conn, amountInBn, tokenIn, tokenOut, pools });
+      if (route) {
+        entries.push({
+          venue: 'multi_hop',
+          poolId: null,
+          path: route.path,
+          hops: route.hops.map(h => ({ venue: h.venue, poolId: h.poolId })),
+          expectedOut: route.outAmountBn.toString(),
+          minOut: minOutAtSlippage(route.outAmountBn, slippagePercent).toString(),
+          fee: null,
+          priceImpactPct: null,
+          price: priceFromAmounts(route.outAmountBn, amountInBn),
+          chosen: false
+        });
+      }
+    }
+  }
+
+  let best: QuotePreviewEntry | null = null;
+  for (const e of entries) {
+    if (e.expectedOut == null) continue;
+    if (!best || new BN(e.expectedOut).gt(new BN(best.expectedOut!))) best = e;
+  }
+  if (best) best.chosen = true;
+
+  console.info('[quotePreview] quotes', { tokenIn, tokenOut, amountIn: amountInBn.toString(), venues: entries.length, chosen: best?.venue ?? null });
+  return {
+    tokenIn,
+    tokenOut,
+    amountIn: amountInBn.toString(),
+    slippage: slippagePercent,
+    quotes: entries,
+    chosen: best ? { venue: best.venue, poolId: best.poolId, expectedOut: best.expectedOut, minOut: best.minOut } : null
+  };
+}
@@ -0,0 +1,12 @@
+import { registerAdapter } from './registry.js';
+import { createMeteoraAdapter } from './meteoraAdapter.js';
+import { createRaydiumAdapter } from './raydiumAdapter.js';
+import { createMockAdapter } from './mockAdapter.js';
+
+// built-in venues; a new venue registers its adapter here
+registerAdapter(createMeteoraAdapter());
+registerAdapter(createRaydiumAdapter());
+registerAdapter(createMockAdapter());
+
+export * from './types.js';
+export { registerAdapter, unregisterAdapter, getAdapter, getEnabledAdapters, isAdapterEnabled, isAdapterRegistered } from './registry.js';
@@ -0,0 +1,94 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import * as MeteoraPkg from '@meteora-ag/dynamic-amm-sdk';
+import { DexAdapter, Quote, QuoteContext, PoolQuoteContext, SwapContext, BuiltSwap } from './types.js';
+import { poolSupportsPair } from './registry.js';
+import { sendGuardedTransaction } from '../../execution/executionGuard.js';
+import { preflightSwap } from '../../execution/simulation.js';
+import { withPriorityFee } from '../../execution/priorityFees.js';
+import { OrderError } from '../../utils/errors.js';
+
+const AmmImpl: any = (MeteoraPkg as any).AmmImpl ?? (MeteoraPkg as any).default?.AmmImpl ?? (MeteoraPkg as any).default;
+
+type MeteoraDeps = {
+  // loads the pool's AMM instance; tests pass a stub instead of hitting RPC
+  loadAmm?: (conn: Connection, pool: PublicKey) => Promise<any>;
+};
+
+async function defaultLoadAmm(conn: Connection, pool: PublicKey) {
+  if (!AmmImpl) throw new Error('Meteora SDK (AmmImpl) not available');
+  return AmmImpl.create(conn, pool);
+}
+
+/** Meteora dynamic AMM venue */
+export function createMeteoraAdapter(deps: MeteoraDeps = {}): DexAdapter {
+  const loadAmm = deps.loadAmm ?? defaultLoadAmm;
+
+  async function quote(ctx: QuoteContext): Promise<Quote> {
+    console.debug('[dexRouter] getMeteoraQuote start', { poolAddress: ctx.poolId, inputMint: ctx.tokenIn, amountInBn: ctx.amountInBn.toString() });
+    const amm = await loadAmm(ctx.conn, new PublicKey(ctx.poolId));
+    return quoteFromAmm(amm, ctx);
+  }
+
+  async function loadQuoter(ctx: PoolQuoteContext) {
+    const amm = await loadAmm(ctx.conn, new PublicKey(ctx.poolId));
+    return (amountInBn: BN) => quoteFromAmm(amm, { ...ctx, amountInBn });
+  }
+
+  /** Quote from an already loaded AMM; getSwapQuote works from the pool state fetched by AmmImpl.create */
+  function quoteFromAmm(amm: any, ctx: QuoteContext): Quote {
+    const inputMintPub = new PublicKey(ctx.tokenIn);
+    // Note: getSwapQuote may throw if pool token shape unexpected; wrap for logging
+    let q: any;
+    try {
+      q = amm.getSwapQuote(inputMintPub, ctx.amountInBn, Number(process.env.SWAP_SLIPPAGE ?? 0.5));
+    } catch (e) {
+      console.warn('[dexRouter] meteora getSwapQuote failed', String(e));
+      throw e;
+    }
+    const outBn = new BN(q.swapOutAmount.toString());
+    console.info('[dexRouter] meteora quote', { poolAddress: ctx.poolId, inputMint: ctx.tokenIn, amountInBn: ctx.amountInBn.toString(), outBn: outBn.toString(), fee: q.fee?.toString?.(), minOut: q.minSwapOutAmount?.toString?.() });
+    return {
+      dex: 'meteora',
+      poolId: ctx.poolId,
+      outAmountBn: outBn,
+      feeBn: q.fee ? new BN(q.fee.toString()) : null,
+      priceImpact: q.priceImpact != null ? Number(q.priceImpact.toString()) : null,
+      details: { fee: q.fee?.toString?.(), minOut: q.minSwapOutAmount?.toString?.(), raw: q }
+    };
+  }
+
+  async function buildTransaction(ctx: SwapContext): Promise<BuiltSwap> {
+    const amm = await loadAmm(ctx.conn, new PublicKey(ctx.poolId));
+    const tokenA = new PublicKey(ctx.tokenIn);
+    const q = amm.getSwapQuote(tokenA, ctx.amountInBn, Number(ctx.slippagePercent ?? process.env.SWAP_SLIPPAGE ?? 0.5));
+    const minOut = ctx.minOutBn ?? q.minSwapOutAmount;
+    console.info('[dexRouter] Meteora executing swap', { pool: ctx.poolId, tokenA: tokenA.toBase58(), quoteSwapInAmount: q.swapInAmount?.toString?.(), quoteMinSwapOut: q.minSwapOutAmount?.toString?.(), minOut: minOut?.toString?.() });
+    const transaction = await amm.swap(ctx.wallet.publicKey, tokenA, q.swapInAmount, minOut);
+    return {
+      transaction,
+      expectedOutBn: q.swapOutAmount ? new BN(q.swapOutAmount.toString()) : null,
+      minOutBn: minOut ? new BN(minOut.toString()) : null
+    };
+  }
+
+  return {
+    name: 'meteora',
+    supportsPair: (pool, tokenIn, tokenOut) => poolSupportsPair('meteora', pool, tokenIn, tokenOut),
+    quote,
+    loadQuoter,
+    buildTransaction,
+    async execute(ctx) {
+      const built = await buildTransaction(ctx);
+      // only a transaction we sign and send ourselves is recorded by the execution guard first
+      if (!built.transaction?.serialize) throw new OrderError('venue_unavailable', 'meteora SDK returned no serializable transaction');
+      const simulation = await preflightSwap(ctx.conn, built.transaction, { owner: ctx.wallet.publicKey, tokenOut: ctx.tokenOut, venue: 'meteora' });
+      if (ctx.dryRun) return { txId: null, executedOutBn: simulation.outputChangeBn ?? built.expectedOutBn, dex: 'meteora', simulated: true, simulation };
+      const budgeted = await withPriorityFee(ctx.conn, built.transaction, { unitsConsumed: simulation.unitsConsumed, maxLamports: ctx.maxPriorityFeeLamports, venue: 'meteora' });
+      const priorityFee = budgeted.priorityFee;
+      const txId = await sendGuardedTransaction(ctx.conn, ctx.wallet, budgeted.tx, { guard: ctx.guard, venue: 'meteora', expectedOutBn: built.expectedOutBn });
+      console.info('[dexRouter] Meteora swap complete', { txId, executed: built.expectedOutBn?.toString?.(), priorityFeeLamports: priorityFee?.lamports ?? null });
+      return { txId, executedOutBn: built.expectedOutBn, dex: 'meteora', priorityFee };
+    }
+  };
+}
@@ -0,0 +1,36 @@
+import BN from 'bn.js';
+import { DexAdapter } from './types.js';
+
+// simulated venue: 0.51% below par, used with USE_MOCK=true and as the no-quote fallback
+function mockOut(amountInBn: BN) {
+  return amountInBn.mul(new BN(9949)).div(new BN(10000));
+}
+
+export function createMockAdapter(opts: { minDelayMs?: number; jitterMs?: number } = {}): DexAdapter {
+  const minDelayMs = opts.minDelayMs ?? 1200;
+  const jitterMs = opts.jitterMs ?? 800;
+
+  return {
+    name: 'mock',
+    supportsPair: () => true,
+    async quote(ctx) {
+      const out = mockOut(ctx.amountInBn);
+      return { dex: 'mock', outAmountBn: out, feeBn: ctx.amountInBn.sub(out), priceImpact: 0, details: { simulated: true } };
+    },
+    async buildTransaction(ctx) {
+      const out = mockOut(ctx.amountInBn);
+      return { transaction: null, expectedOutBn: out, minOutBn: ctx.minOutBn ?? out };
+    },
+    async execute(ctx) {
+      if (ctx.dryRun) {
+        const out = mockOut(ctx.amountInBn);
+        return { txId: null, executedOutBn: out, dex: 'mock', simulated: true, simulation: { ok: true, err: null, unitsConsumed: null, logs: [], outputChangeBn: out } };
+      }
+      await new Promise(r => setTimeout(r, minDelayMs + Math.random() * jitterMs));
+      const out = mockOut(ctx.amountInBn);
+      const txId = `MOCK-${Date.now()}`;
+      console.info('[dexRouter] mock executeSwap returning', { txId, out: out.toString() });
+      return { txId, executedOutBn: out, dex: 'mock', simulated: true };
+    }
+  };
+}
@@ -0,0 +1,240 @@
+import BN from 'bn.js';
+import { initSdk } from '../../config/config.js';
+import { DexAdapter, Quote, QuoteContext, PoolQuoteContext, SwapContext, BuiltSwap } from './types.js';
+import { poolSupportsPair } from './registry.js';
+import { sendGuardedTransaction } from '../../execution/executionGuard.js';
+import { preflightSwap } from '../../execution/simulation.js';
+import { withPriorityFee } from '../../execution/priorityFees.js';
+import { OrderError } from '../../utils/errors.js';
+
+type RaydiumDeps = {
+  // loads a Raydium SDK instance; tests pass a stub whose cpmm reads from a fake pool
+  loadSdk?: () => Promise<any>;
+};
+
+function findCurveCalculator(raydium: any) {
+  return raydium?.cpmm?.CurveCalculator ?? raydium?.CurveCalculator ?? raydium?.cpmm?.curveCalculator ?? raydium?.curveCalculator;
+}
+
+/** amountIn * reserveOut / (reserveIn + amountIn), minus an approximate trade fee */
+function constantProductEstimate(amountInBn: BN, reserveInRaw: any, reserveOutRaw: any, tradeFeeRate: any) {
+  const reserveIn = new BN(reserveInRaw.toString());
+  const reserveOut = new BN(reserveOutRaw.toString());
+  const rawOut = amountInBn.mul(reserveOut).div(reserveIn.add(amountInBn));
+  const feeRate = Number(tradeFeeRate ?? 0) / 1e4; // may need scaling depending on SDK shape
+  const afterFee = rawOut.mul(new BN(Math.round((1 - feeRate) * 100000))).div(new BN(100000));
+  return { afterFee, feeRate };
+}
+
+/** Fraction of output lost versus the pool's spot price (reserveOut / reserveIn) */
+function spotPriceImpact(amountInBn: BN, outBn: BN, reserveInRaw: any, reserveOutRaw: any) {
+  const spotOut = amountInBn.mul(new BN(reserveOutRaw.toString())).div(new BN(reserveInRaw.toString()));
+  if (spotOut.isZero()) return null;
+  const lost = spotOut.sub(BN.min(outBn, spotOut));
+  return lost.muln(1_000_000).div(spotOut).toNumber() / 1_000_000;
+}
+
+function swapBaseInput(raydium: any, CurveCalculator: any, amountInBn: BN, rpcData: any, baseIn: boolean) {
+  return CurveCalculator.swapBaseInput(
+    amountInBn,
+    baseIn ? rpcData.baseReserve : rpcData.quoteReserve,
+    baseIn ? rpcData.quoteReserve : rpcData.baseReserve,
+    rpcData.configInfo?.tradeFeeRate,
+    rpcData.configInfo?.creatorFeeRate,
+    rpcData.configInfo?.protocolFeeRate,
+    rpcData.configInfo?.fundFeeRate,
+    rpcData.feeOn === (raydium?.FeeOn ?? {})?.BothToken || rpcData.feeOn === (raydium?.FeeOn ?? {})?.OnlyTokenB
+  );
+}
+
+/** Raydium CPMM venue */
+export function createRaydiumAdapter(deps: RaydiumDeps = {}): DexAdapter {
+  // use initSdk from your raydium demo config
+  const loadSdk = deps.loadSdk ?? (() => initSdk({ loadToken: true }));
+
+  async function quote(ctx: QuoteContext): Promise<Quote> {
+    const { poolId, amountInBn } = ctx;
+    console.debug('[dexRouter] getRaydiumQuote start', { poolId, inputMint: ctx.tokenIn, amountInBn: amountInBn.toString() });
+
+    const raydium = await loadSdk();
+    // devnet path: cpmm.getPoolInfoFromRpc
+    const data = await raydium.cpmm.getPoolInfoFromRpc(poolId);
+    return quoteFromPool(raydium, data, ctx);
+  }
+
+  async function loadQuoter(ctx: PoolQuoteContext) {
+    const raydium = await loadSdk();
+    const data = await raydium.cpmm.getPoolInfoFromRpc(ctx.poolId);
+    return (amountInBn: BN) => quoteFromPool(raydium, data, { ...ctx, amountInBn });
+  }
+
+  /** Quote from pool state already fetched with getPoolInfoFromRpc; no RPC calls */
+  function quoteFromPool(raydium: any, data: any, ctx: QuoteContext): Quote {
+    const { poolId, amountInBn } = ctx;
+    const poolInfo = data.poolInfo;
+    const rpcData = data.rpcData;
+    console.debug('[dexRouter] raydium rpcData snapshot', {
+      poolId,
+      baseReserve: rpcData?.baseReserve?.toString?.() ?? rpcData?.baseReserve,
+      quoteReserve: rpcData?.quoteReserve?.toString?.() ?? rpcData?.quoteReserve,
+      configInfo: rpcData?.configInfo
+    });
+
+    // Decide which side is base/quote for input mint
+    const baseIn = (ctx.tokenIn === poolInfo.mintA.address);
+    const reserveInRaw = baseIn ? rpcData.baseReserve : rpcData.quoteReserve;
+    const reserveOutRaw = baseIn ? rpcData.quoteReserve : rpcData.baseReserve;
+    // Calculate swap result using CurveCalculator.swapBaseInput
+    const CurveCalculator = findCurveCalculator(raydium);
+    if (!CurveCalculator || typeof CurveCalculator.swapBaseInput !== 'function') {
+      console.warn('[dexRouter] CurveCalculator.swapBaseInput not available; using fallback for quote', { poolId });
+      // fallback naive 1:1-ish estimate: amountIn * reserveOut / (reserveIn + amountIn) minus fee approximation
+      try {
+        const { afterFee, feeRate } = constantProductEstimate(amountInBn, reserveInRaw, reserveOutRaw, rpcData?.configInfo?.tradeFeeRate);
+        console.info('[dexRouter] raydium fallback quote', { poolId, out: afterFee.toString() });
+        return {
+          dex: 'raydium',
+          poolId,
+          outAmountBn: afterFee,
+          feeBn: amountInBn.muln(Math.round(feeRate * 1_000_000)).divn(1_000_000),
+          priceImpact: spotPriceImpact(amountInBn, afterFee, reserveInRaw, reserveOutRaw),
+          details: { fallback: true, rpcDataSnapshot: { reserveInRaw, reserveOutRaw, feeRate } } };
+      } catch (ee) {
+        console.warn('[dexRouter] raydium fallback failed', String(ee));
+        return { dex: 'raydium', poolId, outAmountBn: amountInBn, details: { fallback: true, error: String(ee) } };
+      }
+    }
+
+    // Use CurveCalculator if available
+    let swapResult: any;
+    try {
+      swapResult = swapBaseInput(raydium, CurveCalculator, amountInBn, rpcData, baseIn);
+    } catch (e) {
+      console.warn('[dexRouter] CurveCalculator.swapBaseInput threw', String(e), { poolId });
+      // fall back to simple estimate as above
+      const { afterFee, feeRate } = constantProductEstimate(amountInBn, reserveInRaw, reserveOutRaw, rpcData?.configInfo?.tradeFeeRate);
+      console.info('[dexRouter] raydium fallback after calculator throw', { poolId, out: afterFee.toString() });
+      return {
+        dex: 'raydium',
+        poolId,
+        outAmountBn: afterFee,
+        feeBn: amountInBn.muln(Math.round(feeRate * 1_000_000)).divn(1_000_000),
+        priceImpact: spotPriceImpact(amountInBn, afterFee, reserveInRaw, reserveOutRaw),
+        details: { fallbackAfterThrow: true, rpcDataSnapshot: { reserveInRaw, reserveOutRaw, feeRate } }
+      };
+    }
+
+    console.info('[dexRouter] raydium quote', { poolId, inputMint: ctx.tokenIn, amountInBn: amountInBn.toString(), outAmountBn: swapResult.outputAmount.toString() });
+    return {
+      dex: 'raydium',
+      poolId,
+      outAmountBn: swapResult.outputAmount,
+      feeBn: swapResult.tradeFee ? new BN(swapResult.tradeFee.toString()) : null,
+      priceImpact: spotPriceImpact(amountInBn, new BN(swapResult.outputAmount.toString()), reserveInRaw, reserveOutRaw),
+      details: { swapResult }
+    };
+  }
+
+  async function buildTransaction(ctx: SwapContext): Promise<BuiltSwap> {
+    const { poolId } = ctx;
+    const raydium = await loadSdk();
+    const data = await raydium.cpmm.getPoolInfoFromRpc(poolId);
+    const poolInfo = data.poolInfo;
+    const poolKeys = data.poolKeys;
+    const rpcData = data.rpcData;
+    console.debug('[dexRouter] raydium execution rpcData snapshot', { poolId, rpcConfig: rpcData?.configInfo, feeOn: rpcData?.feeOn });
+
+    // Find CurveCalculator robustly from several possible exports
+    const CurveCalculator = findCurveCalculator(raydium);
+    const hasSwapBaseInput = CurveCalculator && typeof CurveCalculator.swapBaseInput === 'function';
+    console.debug('[dexRouter] CurveCalculator presence', { hasSwapBaseInput, typeofCurveCalculator: typeof CurveCalculator });
+
+    // Determine base/quote and baseIn using poolInfo addresses
+    const baseMintAddress = poolInfo?.mintA?.address ?? poolInfo?.baseMint ?? null;
+    if (!baseMintAddress) {
+      console.warn('[dexRouter] Raydium poolInfo missing mintA/base info; attempt will continue but may be incorrect', { poolId });
+    }
+    const baseIn = (ctx.tokenIn === baseMintAddress);
+    console.debug('[dexRouter] baseIn decision', { tokenIn: ctx.tokenIn, baseMintAddress, baseIn });
+
+    // compute swapResult: either using CurveCalculator or fallback heuristic
+    let swapResult: any = null;
+    if (hasSwapBaseInput) {
+      try {
+        swapResult = swapBaseInput(raydium, CurveCalculator, ctx.amountInBn, rpcData, baseIn);
+      } catch (e) {
+        console.warn('[dexRouter] CurveCalculator.swapBaseInput threw; falling back', String(e));
+        swapResult = null;
+      }
+    }
+
+    if (!swapResult) {
+      // Fallback: simple AMM constant-product approximation (very conservative)
+      const { afterFee, feeRate } = constantProductEstimate(
+        ctx.amountInBn,
+        baseIn ? rpcData.baseReserve : rpcData.quoteReserve,
+        baseIn ? rpcData.quoteReserve : rpcData.baseReserve,
+        rpcData.configInfo?.tradeFeeRate
+      );
+      swapResult = { outputAmount: afterFee, inputAmount: ctx.amountInBn };
+      console.warn('[dexRouter] Used fallback AMM estimate for Raydium swap (CurveCalculator missing)', { poolId, fallbackOut: afterFee.toString(), feeRate });
+    } else {
+      console.info('[dexRouter] Raydium computed swapResult', { poolId, outputAmount: swapResult.outputAmount?.toString?.(), inputAmount: swapResult.inputAmount?.toString?.() });
+    }
+
+    // call cpmm.swap as in your demo. Many SDKs accept swapResult as computed.
+    const cpmm = raydium.cpmm;
+    if (!cpmm || !cpmm.swap) {
+      throw new Error('Raydium CPmm.swap method not available on this SDK instance');
+    }
+
+    console.info('[dexRouter] executing raydium.swap', { poolId, baseIn, amountInBn: ctx.amountInBn.toString(), swapOutputEstimate: swapResult.outputAmount?.toString?.() });
+
+    // cpmm.swap only takes a slippage fraction, so express an explicit minOut relative to the estimate
+    const estimate = new BN(swapResult.outputAmount.toString());
+    let slippageFraction = (ctx.slippagePercent ?? Number(process.env.SWAP_SLIPPAGE ?? 1.0)) / 100;
+    if (ctx.minOutBn) {
+      if (estimate.lt(ctx.minOutBn)) {
+        throw new Error(`raydium estimated output ${estimate.toString()} is below required minimum ${ctx.minOutBn.toString()}`);
+      }
+      slippageFraction = estimate.sub(ctx.minOutBn).muln(1_000_000).div(estimate).toNumber() / 1_000_000;
+    }
+
+    const { transaction, signers } = await cpmm.swap({
+      poolInfo,
+      poolKeys,
+      inputAmount: ctx.amountInBn,
+      swapResult,
+      slippage: slippageFraction,
+      baseIn,
+      txVersion: raydium.TxVersion?.V0 ?? 0
+    });
+
+    return {
+      transaction,
+      signers,
+      expectedOutBn: estimate,
+      minOutBn: ctx.minOutBn ?? estimate.muln(Math.round((1 - slippageFraction) * 1_000_000)).divn(1_000_000)
+    };
+  }
+
+  return {
+    name: 'raydium',
+    supportsPair: (pool, tokenIn, tokenOut) => poolSupportsPair('raydium', pool, tokenIn, tokenOut),
+    quote,
+    loadQuoter,
+    buildTransaction,
+    async execute(ctx) {
+      const built = await buildTransaction(ctx);
+      // only a transaction we sign and send ourselves is recorded by the execution guard first
+      if (!built.transaction?.serialize) throw new OrderError('venue_unavailable', 'raydium SDK returned no serializable transaction');
+      const simulation = await preflightSwap(ctx.conn, built.transaction, { owner: ctx.wallet.publicKey, tokenOut: ctx.tokenOut, venue: 'raydium' });
+      if (ctx.dryRun) return { txId: null, executedOutBn: simulation.outputChangeBn ?? built.expectedOutBn, dex: 'raydium', simulated: true, simulation };
+      const budgeted = await withPriorityFee(ctx.conn, built.transaction, { unitsConsumed: simulation.unitsConsumed, maxLamports: ctx.maxPriorityFeeLamports, venue: 'raydium', signers: built.signers });
+      const priorityFee = budgeted.priorityFee;
+      const txId = await sendGuardedTransaction(ctx.conn, ctx.wallet, budgeted.tx, { guard: ctx.guard, venue: 'raydium', expectedOutBn: built.expectedOutBn });
+      console.info('[dexRouter] Raydium swap complete', { poolId: ctx.poolId, txId, executedOut: built.expectedOutBn?.toString?.(), priorityFeeLamports: priorityFee?.lamports ?? null });
+      return { txId, executedOutBn: built.expectedOutBn, dex: 'raydium', priorityFee };
+    }
+  };
+}
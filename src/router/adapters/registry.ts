@@ -0,0 +1,63 @@
+import { DexAdapter, CandidatePool } from './types.js';
+import { poolConnects } from '../pools.js';
+
+/**
+ * Adapter registry. Venues register themselves by name; configuration decides which are live:
+ *
+ * - ENABLED_DEXES: comma-separated allow-list (default: every registered adapter)
+ * - DISABLED_DEXES: comma-separated deny-list, applied after ENABLED_DEXES
+ */
+
+const adapters = new Map<string, DexAdapter>();
+
+function envList(name: string): string[] | null {
+  const raw = process.env[name];
+  if (!raw || !raw.trim()) return null;
+  return raw.split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
+}
+
+export function registerAdapter(adapter: DexAdapter) {
+  if (adapters.has(adapter.name)) {
+    console.warn('[adapters] replacing registered adapter', { name: adapter.name });
+  }
+  adapters.set(adapter.name, adapter);
+}
+
+export function unregisterAdapter(name: string) {
+  adapters.delete(name);
+}
+
+export function isAdapterRegistered(name: string) {
+  return adapters.has(name);
+}
+
+export function isAdapterEnabled(name: string) {
+  if (!adapters.has(name)) return false;
+  const enabled = envList('ENABLED_DEXES');
+  const disabled = envList('DISABLED_DEXES');
+  if (enabled && !enabled.includes(name.toLowerCase())) return false;
+  if (disabled && disabled.includes(name.toLowerCase())) return false;
+  return true;
+}
+
+/** Registered and enabled adapter by name, or throws */
+export function getAdapter(name: string): DexAdapter {
+  const adapter = adapters.get(name);
+  if (!adapter) throw new Error(`no DEX adapter registered for '${name}'`);
+  if (!isAdapterEnabled(name)) throw new Error(`DEX adapter '${name}' is disabled by configuration`);
+  return adapter;
+}
+
+export function getEnabledAdapters(): DexAdapter[] {
+  return Array.from(adapters.values()).filter(a => isAdapterEnabled(a.name));
+}
+
+/**
+ * Default supportsPair for pool-based venues: the pool must belong to this venue and, when its
+ * mints are known, connect the two tokens.
+ */
+export function poolSupportsPair(venue: string, pool: CandidatePool, tokenIn: string, tokenOut: string) {
+  if (pool.venue !== venue) return false;
+  if (!pool.mintA || !pool.mintB) return true;
+  return poolConnects(pool, tokenIn, tokenOut);
+}
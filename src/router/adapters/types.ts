@@ -0,0 +1,92 @@
+import { Connection, Keypair, Signer } from '@solana/web3.js';
+import BN from 'bn.js';
+import { ExecutionGuard } from '../../execution/executionGuard.js';
+import { SimulationResult } from '../../execution/simulation.js';
+import { PriorityFee } from '../../execution/priorityFees.js';
+import { SwapFill } from '../../execution/fills.js';
+
+/**
+ * A price quote from one venue for one pool. `feeBn` is the venue's trade fee in token_in base units
+ * and `priceImpact` the fraction (0..1) lost versus the pool's spot price, when the venue reports them.
+ */
+export type Quote = { dex: string; outAmountBn: BN; details: any; poolId?: string; feeBn?: BN | null; priceImpact?: number | null };
+
+/**
+ * A pool the router may quote or swap through. Mints are optional for legacy single-pool
+ * configuration (POOL_ADDRESS / POOL_ID), where the pair is not known up front.
+ */
+export type CandidatePool = { venue: string; poolId: string; mintA?: string; mintB?: string };
+
+export type QuoteContext = {
+  conn: Connection;
+  poolId: string;
+  tokenIn: string;
+  amountInBn: BN;
+};
+
+/** What a quoter needs before the amount is known */
+export type PoolQuoteContext = Omit<QuoteContext, 'amountInBn'>;
+
+export type SwapContext = {
+  conn: Connection;
+  wallet: Keypair;
+  poolId: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountInBn: BN;
+  slippagePercent?: number;
+  // explicit minimum output; overrides slippagePercent
+  minOutBn?: BN;
+  // records the transaction before sending so a retried job never swaps twice
+  guard?: ExecutionGuard;
+  // simulate only: return the simulation instead of sending
+  dryRun?: boolean;
+  // cap on this swap's priority fee (see execution/priorityFees.ts)
+  maxPriorityFeeLamports?: number | null;
+};
+
+/** Unsigned swap transaction plus what the venue expects it to produce */
+export type BuiltSwap = {
+  transaction: any;
+  expectedOutBn: BN | null;
+  minOutBn: BN | null;
+  // keys the SDK signed the transaction with besides the wallet; they sign again after the compute budget is added
+  signers?: Signer[];
+};
+
+/**
+ * Outcome of one swap. `executedOutBn` is what the wallet received, read from the confirmed
+ * transaction (`fill`); `expectedOutBn` keeps the venue's expected output. When a landed swap's
+ * transaction cannot be read, `executedOutBn` is null and `fillUnknown` is set. Mock swaps and dry
+ * runs report the adapter's own output.
+ */
+export type SwapResult = {
+  txId: string | null;
+  executedOutBn: BN | null;
+  dex: string;
+  simulated?: boolean;
+  simulation?: SimulationResult;
+  priorityFee?: PriorityFee | null;
+  expectedOutBn?: BN | null;
+  fill?: SwapFill | null;
+  fillUnknown?: boolean;
+};
+
+/**
+ * One trading venue. Adapters are registered in ./registry.ts; getBestQuote and executeSwap only
+ * talk to this interface, so adding a venue means writing an adapter and registering it.
+ */
+export interface DexAdapter {
+  readonly name: string;
+  /** Whether this adapter can trade tokenIn -> tokenOut through the given pool */
+  supportsPair(pool: CandidatePool, tokenIn: string, tokenOut: string): boolean;
+  quote(ctx: QuoteContext): Promise<Quote>;
+  /**
+   * Load the pool's state once and return a function quoting any amount from it without further RPC
+   * calls, for callers that quote one pool at many sizes (split routing). Optional: without it,
+   * callers use quote().
+   */
+  loadQuoter?(ctx: PoolQuoteContext): Promise<(amountInBn: BN) => Quote>;
+  buildTransaction(ctx: SwapContext): Promise<BuiltSwap>;
+  execute(ctx: SwapContext): Promise<SwapResult>;
+}
@@ -0,0 +1,176 @@
+import { Connection, Keypair } from '@solana/web3.js';
+import BN from 'bn.js';
+import { executeSwap } from './dexRouter.js';
+import { getAdapter, isAdapterEnabled } from './adapters/index.js';
+import { PoolInfo, getKnownPools, normalizeMint } from './pools.js';
+import { PathHop, findPaths, pathTokens } from './pathFinder.js';
+import { ExecutionGuard, guardLeg } from '../execution/executionGuard.js';
+import { describeSimulation } from '../execution/simulation.js';
+import { PriorityFee } from '../execution/priorityFees.js';
+
+/**
+ * Multi-hop routing: when no single pool (or no good single pool) connects token_in and token_out,
+ * route through intermediate tokens, e.g. A -> USDC -> B. Each hop is quoted in sequence with the
+ * output of the previous hop, and executed as its own swap.
+ */
+
+export type QuotedHop = {
+  venue: PoolInfo['venue'];
+  poolId: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountInBn: BN;
+  outAmountBn: BN;
+};
+
+export type MultiHopRoute = { path: string[]; hops: QuotedHop[]; amountInBn: BN; outAmountBn: BN };
+
+/** Serializable form of a multi-hop route for routing_info / WS payloads */
+export function describeMultiHopRoute(route: MultiHopRoute) {
+  return {
+    path: route.path,
+    hops: route.hops.map(h => ({
+      venue: h.venue,
+      poolId: h.poolId,
+      tokenIn: h.tokenIn,
+      tokenOut: h.tokenOut,
+      amountIn: h.amountInBn.toString(),
+      estimatedOut: h.outAmountBn.toString()
+    })),
+    estimatedOut: route.outAmountBn.toString()
+  };
+}
+
+async function quoteHop(conn: Connection, hop: PathHop, amountInBn: BN) {
+  const q = await getAdapter(hop.pool.venue).quote({ conn, poolId: hop.pool.poolId, tokenIn: hop.tokenIn, amountInBn });
+  return q.outAmountBn;
+}
+
+/** Quote a path hop by hop, feeding each hop's output into the next */
+export async function quotePath(conn: Connection, path: PathHop[], amountInBn: BN): Promise<MultiHopRoute> {
+  const hops: QuotedHop[] = [];
+  let amount = amountInBn;
+  for (const hop of path) {
+    const out = await quoteHop(conn, hop, amount);
+    hops.push({ venue: hop.pool.venue, poolId: hop.pool.poolId, tokenIn: hop.tokenIn, tokenOut: hop.tokenOut, amountInBn: amount, outAmountBn: out });
+    amount = out;
+  }
+  return { path: pathTokens(path), hops, amountInBn, outAmountBn: amount };
+}
+
+/**
+ * Best route with two or more hops across the known pools, or null if there is none.
+ * Direct (single-pool) routes are left to getBestQuote. Native `SOL` is routed through WSOL pools;
+ * the route's first and last hops keep the order's own tokens, so executeSwap still wraps SOL.
+ */
+export async function getBestMultiHopQuote(params: {
+  conn: Connection;
+  amountInBn: BN;
+  tokenIn: string;
+  tokenOut: string;
+  pools?: PoolInfo[];
+}): Promise<MultiHopRoute | null> {
+  const pools = params.pools ?? getKnownPools();
+  const maxHops = Number(process.env.MAX_HOPS ?? 3);
+  const paths = findPaths(pools.filter(p => isAdapterEnabled(p.venue)), normalizeMint(params.tokenIn), normalizeMint(params.tokenOut), maxHops).filter(p => p.length > 1);
+  if (paths.length === 0) return null;
+
+  let best: MultiHopRoute | null = null;
+  for (const path of paths) {
+    try {
+      const route = await quotePath(params.conn, path, params.amountInBn);
+      console.debug('[multiHop] quoted path', { path: route.path, out: route.outAmountBn.toString() });
+      if (!best || route.outAmountBn.gt(best.outAmountBn)) best = route;
+    } catch (e) {
+      console.warn('[multiHop] path quote failed', { path: pathTokens(path), error: String(e) });
+    }
+  }
+  if (!best) return null;
+  best.hops[0].tokenIn = params.tokenIn;
+  best.hops[best.hops.length - 1].tokenOut = params.tokenOut;
+  console.info('[multiHop] best path', describeMultiHopRoute(best));
+  return best;
+}
+
+/**
+ * Execute the hops in order. Every hop but the last keeps the order's slippage as a per-hop guard;
+ * the last hop's minimum output is the end-to-end quote minus slippage, so the order's slippage
+ * bounds what actually arrives in token_out.
+ *
+ * Like split execution, a failure after the first hop has already swapped into an intermediate
+ * token, so it is reported as `partial` instead of thrown (a retry would swap the first hop again).
+ *
+ * A hop whose confirmed transaction cannot be read reports `fillUnknown` and no output; the next hop
+ * then spends only the minimum output that hop guaranteed.
+ *
+ * A dry run simulates the first hop only: later hops spend an intermediate token the wallet only
+ * holds once the earlier hops have landed, so their simulations could not succeed.
+ */
+export async function executeMultiHopSwap(params: {
+  conn: Connection;
+  wallet: Keypair;
+  route: MultiHopRoute;
+  slippagePercent?: number;
+  // end-to-end minimum output; defaults to the route's quote minus slippage
+  minOutBn?: BN;
+  guard?: ExecutionGuard;
+  dryRun?: boolean;
+  // priority fee cap for each hop
+  maxPriorityFeeLamports?: number | null;
+  onHopConfirmed?: (hop: { index: number; venue: string; poolId: string; tokenIn: string; tokenOut: string; amountIn: string; amountOut: string | null; txId: string | null }) => Promise<void>;
+}) {
+  const slippagePercent = params.slippagePercent ?? Number(process.env.SWAP_SLIPPAGE ?? 1.0);
+  const slippageBps = Math.round(slippagePercent * 100);
+  const finalMinOut = params.minOutBn ?? params.route.outAmountBn.muln(10000 - slippageBps).divn(10000);
+
+  const hops: { index: number; venue: string; poolId: string; tokenIn: string; tokenOut: string; amountIn: string; amountOut: string | null; txId: string | null; fillUnknown?: boolean; error?: string; simulation?: ReturnType<typeof describeSimulation>; priorityFee?: PriorityFee | null }[] = [];
+  let amount = params.route.amountInBn;
+  // what the first hop actually spent; null if its transaction could not be read
+  let executedInBn: BN | null = params.route.amountInBn;
+  // the last hop's output; null if its transaction could not be read
+  let executedOutBn: BN | null = null;
+  let fillUnknown = false;
+
+  for (let i = 0; i < params.route.hops.length; i++) {
+    const hop = params.route.hops[i];
+    const isLast = i === params.route.hops.length - 1;
+    let res: Awaited<ReturnType<typeof executeSwap>>;
+    try {
+      res = await executeSwap({
+        conn: params.conn,
+        wallet: params.wallet,
+        dex: hop.venue,
+        tokenIn: hop.tokenIn,
+        tokenOut: hop.tokenOut,
+        amountInBn: amount,
+        slippagePercent,
+        ...(isLast ? { minOutBn: finalMinOut } : {}),
+        poolId: hop.poolId,
+        guard: guardLeg(params.guard, `hop:${i}`),
+        dryRun: params.dryRun,
+        maxPriorityFeeLamports: params.maxPriorityFeeLamports
+      });
+    } catch (e) {
+      console.error('[multiHop] hop failed', { index: i, venue: hop.venue, poolId: hop.poolId, error: String(e) });
+      if (i === 0) throw e;
+      hops.push({ index: i, venue: hop.venue, poolId: hop.poolId, tokenIn: hop.tokenIn, tokenOut: hop.tokenOut, amountIn: amount.toString(), amountOut: null, txId: null, error: String(e) });
+      return { hops, executedInBn, executedOutBn: null as BN | null, partial: true, fillUnknown };
+    }
+
+    if (res.fillUnknown) fillUnknown = true;
+    if (i === 0 && (res.fill || res.fillUnknown)) executedInBn = res.fill?.amountInBn ?? null;
+    const record = { index: i, venue: hop.venue, poolId: hop.poolId, tokenIn: hop.tokenIn, tokenOut: hop.tokenOut, amountIn: amount.toString(), amountOut: res.executedOutBn?.toString() ?? null, txId: res.txId };
+    if (params.dryRun) {
+      hops.push({ ...record, ...(res.simulation ? { simulation: describeSimulation(res.simulation) } : {}) });
+      return { hops, executedInBn, executedOutBn: null as BN | null, partial: false, fillUnknown };
+    }
+    hops.push({ ...record, ...(res.fillUnknown ? { fillUnknown: true } : {}), ...(res.priorityFee ? { priorityFee: res.priorityFee } : {}) });
+    if (params.onHopConfirmed) await params.onHopConfirmed(record);
+    executedOutBn = res.executedOutBn;
+    // an unread fill: the next hop spends only what this hop's minimum output guaranteed
+    amount = res.executedOutBn ?? (res.expectedOutBn ?? hop.outAmountBn).muln(10000 - slippageBps).divn(10000);
+  }
+
+  console.info('[multiHop] multi-hop execution complete', { path: params.route.path, executedOut: executedOutBn?.toString() ?? null, fillUnknown });
+  return { hops, executedInBn, executedOutBn, partial: false, fillUnknown };
+}
@@ -0,0 +1,36 @@
+import { PoolInfo } from './pools.js';
+
+export type PathHop = { pool: PoolInfo; tokenIn: string; tokenOut: string };
+
+/**
+ * Enumerate every simple path (no token visited twice) from tokenIn to tokenOut over the given
+ * pools, using at most maxHops swaps. Shorter paths come first.
+ */
+export function findPaths(pools: PoolInfo[], tokenIn: string, tokenOut: string, maxHops = 3): PathHop[][] {
+  const paths: PathHop[][] = [];
+  if (tokenIn === tokenOut) return paths;
+
+  const walk = (token: string, visited: Set<string>, hops: PathHop[]) => {
+    if (hops.length >= maxHops) return;
+    for (const pool of pools) {
+      const next = pool.mintA === token ? pool.mintB : (pool.mintB === token ? pool.mintA : null);
+      if (!next || visited.has(next)) continue;
+      const hop = { pool, tokenIn: token, tokenOut: next };
+      if (next === tokenOut) {
+        paths.push([...hops, hop]);
+        continue;
+      }
+      visited.add(next);
+      walk(next, visited, [...hops, hop]);
+      visited.delete(next);
+    }
+  };
+
+  walk(tokenIn, new Set([tokenIn]), []);
+  return paths.sort((a, b) => a.length - b.length);
+}
+
+/** Token sequence of a path, e.g. [A, USDC, B] */
+export function pathTokens(path: PathHop[]) {
+  return path.length === 0 ? [] : [path[0].tokenIn, ...path.map(h => h.tokenOut)];
+}
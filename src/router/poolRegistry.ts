@@ -0,0 +1,58 @@
+import { listPools } from '../config/db.js';
+import { envUseMock } from './dexRouter.js';
+import { isAdapterEnabled } from './adapters/index.js';
+import { PoolInfo, getKnownPools, normalizeMint, poolConnects } from './pools.js';
+import { findPaths } from './pathFinder.js';
+
+/**
+ * Pool registry: the pools stored in Postgres (managed through /api/admin/pools) plus the env seed
+ * pools from getKnownPools(). A pool present in the table always wins over the env entry with the
+ * same venue + pool id, so an env pool can be disabled from the admin API.
+ *
+ * The merged list is cached per process for POOL_REGISTRY_TTL_MS (default 30s); the API process
+ * invalidates its own cache on every admin change, workers pick changes up when the cache expires.
+ */
+
+let cache: { pools: PoolInfo[]; loadedAt: number } | null = null;
+
+function rowToPool(r: any): PoolInfo & { enabled: boolean } {
+  return { venue: r.venue, poolId: r.pool_id, mintA: r.mint_a, mintB: r.mint_b, poolType: r.pool_type ?? null, enabled: !!r.enabled };
+}
+
+export function invalidatePoolRegistry() {
+  cache = null;
+}
+
+/** Enabled pools the router may use */
+export async function getPoolRegistry(): Promise<PoolInfo[]> {
+  const ttlMs = Number(process.env.POOL_REGISTRY_TTL_MS ?? 30000);
+  if (cache && Date.now() - cache.loadedAt < ttlMs) return cache.pools;
+
+  try {
+    const rows = (await listPools()).map(rowToPool);
+    const pools: PoolInfo[] = rows.filter(r => r.enabled).map(({ enabled, ...p }) => p);
+    for (const p of getKnownPools()) {
+      if (!rows.some(r => r.venue === p.venue && r.poolId === p.poolId)) pools.push(p);
+    }
+    cache = { pools, loadedAt: Date.now() };
+    console.debug('[poolRegistry] loaded pools', { count: pools.length });
+    return pools;
+  } catch (e) {
+    // keep routing on the last known registry (or the env seed) while Postgres is unavailable
+    console.error('[poolRegistry] failed to load pools; using last known registry', { error: String(e) });
+    return cache?.pools ?? getKnownPools();
+  }
+}
+
+/** Pools trading tokenIn against tokenOut directly, on enabled venues */
+export function directPools(pools: PoolInfo[], tokenIn: string, tokenOut: string) {
+  return pools.filter(p => isAdapterEnabled(p.venue) && poolConnects(p, tokenIn, tokenOut));
+}
+
+/** True when the registry has a direct pool or a multi-hop path for the pair (always true with USE_MOCK) */
+export async function isPairSupported(tokenIn: string, tokenOut: string) {
+  if (envUseMock()) return true;
+  const pools = (await getPoolRegistry()).filter(p => isAdapterEnabled(p.venue));
+  const maxHops = Number(process.env.MAX_HOPS ?? 3);
+  return findPaths(pools, normalizeMint(tokenIn), normalizeMint(tokenOut), maxHops).length > 0;
+}
@@ -0,0 +1,56 @@
+import { WSOL_MINT } from '../utils/solanaHelpers.js';
+
+/**
+ * Pools configured through env, for direct swaps and as hops in multi-hop paths. The Postgres pool
+ * registry (./poolRegistry.ts) is the main source; these are merged in as seed entries.
+ *
+ * - POOL_ADDRESS (Meteora) and POOL_ID (Raydium) are the demo pools between USDC_DEV_MINT and TEST_DEV_MINT
+ * - KNOWN_POOLS adds more: JSON array of { venue, poolId, mintA, mintB } (venue = adapter name)
+ */
+
+// venue is the name of a registered DexAdapter (see ./adapters/registry.ts)
+export type PoolVenue = string;
+export type PoolInfo = { venue: PoolVenue; poolId: string; mintA: string; mintB: string; poolType?: string | null };
+
+function parseKnownPoolsEnv(): PoolInfo[] {
+  const raw = process.env.KNOWN_POOLS;
+  if (!raw) return [];
+  try {
+    const arr = JSON.parse(raw);
+    if (!Array.isArray(arr)) throw new Error('KNOWN_POOLS must be a JSON array');
+    return arr.filter((p: any) => {
+      const ok = typeof p?.venue === 'string' && p.poolId && p.mintA && p.mintB;
+      if (!ok) console.warn('[pools] ignoring malformed KNOWN_POOLS entry', p);
+      return ok;
+    });
+  } catch (e) {
+    console.error('[pools] failed to parse KNOWN_POOLS', String(e));
+    return [];
+  }
+}
+
+export function getKnownPools(): PoolInfo[] {
+  const pools: PoolInfo[] = [];
+  const mintA = process.env.USDC_DEV_MINT;
+  const mintB = process.env.TEST_DEV_MINT;
+  if (mintA && mintB) {
+    if (process.env.POOL_ADDRESS) pools.push({ venue: 'meteora', poolId: process.env.POOL_ADDRESS, mintA, mintB });
+    if (process.env.POOL_ID) pools.push({ venue: 'raydium', poolId: process.env.POOL_ID, mintA, mintB });
+  }
+  for (const p of parseKnownPoolsEnv()) {
+    if (!pools.some(k => k.venue === p.venue && k.poolId === p.poolId)) pools.push(p);
+  }
+  return pools;
+}
+
+/** Native SOL is traded through wrapped SOL pools */
+export function normalizeMint(mint: string) {
+  return mint === 'SOL' ? WSOL_MINT : mint;
+}
+
+/** True when the pool trades the two mints against each other (either direction) */
+export function poolConnects(pool: { mintA?: string; mintB?: string }, tokenIn: string, tokenOut: string) {
+  const a = normalizeMint(tokenIn);
+  const b = normalizeMint(tokenOut);
+  return (pool.mintA === a && pool.mintB === b) || (pool.mintA === b && pool.mintB === a);
+}
@@ -0,0 +1,157 @@
+import { Connection, Keypair } from '@solana/web3.js';
+import BN from 'bn.js';
+import { Quote, getBestQuote, executeSwap, envUseMock } from './dexRouter.js';
+import { SplitRoute, splitRoutingEnabled, getBestSplitQuote, executeSplitSwap, describeSplitRoute } from './splitRouter.js';
+import { MultiHopRoute, getBestMultiHopQuote, executeMultiHopSwap, describeMultiHopRoute } from './multiHop.js';
+import { PoolInfo } from './pools.js';
+import { getPoolRegistry, directPools } from './poolRegistry.js';
+import { ExecutionGuard, guardLeg } from '../execution/executionGuard.js';
+import { SimulationResult } from '../execution/simulation.js';
+import { priorityFeeCap, totalPriorityFeeLamports } from '../execution/priorityFees.js';
+
+/**
+ * Route planning for one order: best single venue (getBestQuote), a split across two pools of the
+ * pair, or a multi-hop path through intermediate tokens - whichever yields the most token_out.
+ * Candidate pools come from the pool registry, selected by token_in / token_out.
+ */
+
+export type RoutePlan =
+  | { kind: 'single'; chosen: Quote['dex']; estimatedOutBn: BN; quote: Quote }
+  | { kind: 'split'; chosen: 'split'; estimatedOutBn: BN; quote: Quote; split: SplitRoute }
+  // quote is the best direct quote, or null when the pair has no direct pool
+  | { kind: 'multi_hop'; chosen: 'multi_hop'; estimatedOutBn: BN; quote: Quote | null; multiHop: MultiHopRoute };
+
+export type RouteExecution = {
+  txId: string | null;
+  // what the route actually spent and received, read from the confirmed transactions
+  executedInBn?: BN | null;
+  executedOutBn: BN | null;
+  // a landed transaction could not be read back: the amounts it decides are null, not the quote
+  fillUnknown?: boolean;
+  dex: string;
+  simulated?: boolean;
+  // single-venue dry runs; split legs and hops carry their own summary
+  simulation?: SimulationResult;
+  legs?: any[];
+  hops?: any[];
+  partial?: boolean;
+  // priority fees of every transaction sent; null when none set one
+  priorityFeeLamports?: number | null;
+};
+
+type RouteParams = {
+  conn: Connection;
+  amountInBn: BN;
+  tokenIn: string;
+  tokenOut: string;
+  // candidate pools; defaults to the pool registry
+  pools?: PoolInfo[];
+};
+
+export async function planRoute(params: RouteParams): Promise<RoutePlan> {
+  if (envUseMock()) {
+    const quote = await getBestQuote(params);
+    return { kind: 'single', chosen: quote.dex, estimatedOutBn: quote.outAmountBn, quote };
+  }
+
+  const pools = params.pools ?? await getPoolRegistry();
+  const direct = directPools(pools, params.tokenIn, params.tokenOut);
+  const candidates: RoutePlan[] = [];
+
+  // getBestQuote falls back to a mock quote when none of the direct pools could quote
+  const quote = direct.length > 0 ? await getBestQuote({ ...params, pools: direct }) : null;
+  const hasDirect = !!quote && quote.dex !== 'mock';
+  if (hasDirect) candidates.push({ kind: 'single', chosen: quote.dex, estimatedOutBn: quote.outAmountBn, quote });
+
+  if (hasDirect && splitRoutingEnabled() && direct.length > 1) {
+    const split = await getBestSplitQuote({ ...params, pools: direct }).catch((e) => {
+      console.warn('[routePlanner] split quote failed; ignoring split', { error: String(e) });
+      return null;
+    });
+    if (split) candidates.push({ kind: 'split', chosen: 'split', estimatedOutBn: split.outAmountBn, quote, split });
+  }
+
+  const multiHop = await getBestMultiHopQuote({ ...params, pools }).catch((e) => {
+    console.warn('[routePlanner] multi-hop quote failed; ignoring multi-hop', { error: String(e) });
+    return null;
+  });
+  if (multiHop) candidates.push({ kind: 'multi_hop', chosen: 'multi_hop', estimatedOutBn: multiHop.outAmountBn, quote, multiHop });
+
+  if (candidates.length === 0) {
+    if (quote) return { kind: 'single', chosen: quote.dex, estimatedOutBn: quote.outAmountBn, quote };
+    throw new Error(`unsupported pair: no registered pool or path for ${params.tokenIn} -> ${params.tokenOut}`);
+  }
+  const best = candidates.reduce((a, b) => (b.estimatedOutBn.gt(a.estimatedOutBn) ? b : a));
+  console.info('[routePlanner] route selected', { kind: best.kind, estimatedOut: best.estimatedOutBn.toString(), candidates: candidates.map(c => ({ kind: c.kind, out: c.estimatedOutBn.toString() })) });
+  return best;
+}
+
+/** Serializable routing summary stored in routing_info and sent over WS */
+export function describeRoutePlan(plan: RoutePlan) {
+  const base = { chosen: plan.chosen, estimatedOut: plan.estimatedOutBn.toString() };
+  if (plan.kind === 'split') return { ...base, split: describeSplitRoute(plan.split) };
+  if (plan.kind === 'multi_hop') return { ...base, path: plan.multiHop.path, multiHop: describeMultiHopRoute(plan.multiHop) };
+  return { ...base, details: plan.quote.details };
+}
+
+export async function executeRoutePlan(plan: RoutePlan, params: {
+  conn: Connection;
+  wallet: Keypair;
+  tokenIn: string;
+  tokenOut: string;
+  amountInBn: BN;
+  slippagePercent?: number;
+  // required minimum output (firm quotes); overrides slippagePercent (split legs each get their share)
+  minOutBn?: BN;
+  // records each leg's transaction before it is sent (see execution/executionGuard.ts)
+  guard?: ExecutionGuard;
+  // simulate every leg (the first hop of a multi-hop route) instead of sending
+  dryRun?: boolean;
+  // the order's priority fee cap, shared evenly by its transactions; defaults to PRIORITY_FEE_MAX_LAMPORTS
+  maxPriorityFeeLamports?: number | null;
+  onHopConfirmed?: Parameters<typeof executeMultiHopSwap>[0]['onHopConfirmed'];
+}): Promise<RouteExecution> {
+  const cap = priorityFeeCap(params.maxPriorityFeeLamports);
+  if (plan.kind === 'split') {
+    const res = await executeSplitSwap({ conn: params.conn, wallet: params.wallet, route: plan.split, tokenIn: params.tokenIn, tokenOut: params.tokenOut, slippagePercent: params.slippagePercent, minOutBn: params.minOutBn, guard: params.guard, dryRun: params.dryRun, maxPriorityFeeLamports: Math.floor(cap / plan.split.legs.length) });
+    return {
+      txId: res.legs.filter(l => l.txId).map(l => l.txId).join(','),
+      executedInBn: res.executedInBn,
+      executedOutBn: res.executedOutBn,
+      dex: 'split',
+      legs: res.legs,
+      partial: res.partial,
+      fillUnknown: res.fillUnknown,
+      priorityFeeLamports: totalPriorityFeeLamports(res.legs)
+    };
+  }
+  if (plan.kind === 'multi_hop') {
+    const res = await executeMultiHopSwap({ conn: params.conn, wallet: params.wallet, route: plan.multiHop, slippagePercent: params.slippagePercent, minOutBn: params.minOutBn, guard: params.guard, dryRun: params.dryRun, maxPriorityFeeLamports: Math.floor(cap / plan.multiHop.hops.length), onHopConfirmed: params.onHopConfirmed });
+    return {
+      txId: res.hops.filter(h => h.txId).map(h => h.txId).join(','),
+      executedInBn: res.executedInBn,
+      executedOutBn: res.executedOutBn,
+      dex: 'multi_hop',
+      hops: res.hops,
+      partial: res.partial,
+      fillUnknown: res.fillUnknown,
+      priorityFeeLamports: totalPriorityFeeLamports(res.hops)
+    };
+  }
+  const res = await executeSwap({
+    conn: params.conn,
+    wallet: params.wallet,
+    dex: plan.quote.dex,
+    tokenIn: params.tokenIn,
+    tokenOut: params.tokenOut,
+    amountInBn: params.amountInBn,
+    slippagePercent: params.slippagePercent,
+    minOutBn: params.minOutBn,
+    poolId: plan.quote.poolId,
+    guard: guardLeg(params.guard, 'single'),
+    dryRun: params.dryRun,
+    maxPriorityFeeLamports: cap
+  });
+  const executedInBn = res.fill ? res.fill.amountInBn : (res.fillUnknown ? null : params.amountInBn);
+  return { ...res, executedInBn, priorityFeeLamports: res.priorityFee?.lamports ?? null };
+}
@@ -0,0 +1,221 @@
+import { Connection, Keypair } from '@solana/web3.js';
+import BN from 'bn.js';
+import { Quote, executeSwap } from './dexRouter.js';
+import { getAdapter, isAdapterEnabled } from './adapters/index.js';
+import { PoolInfo } from './pools.js';
+import { ExecutionGuard, guardLeg } from '../execution/executionGuard.js';
+import { describeSimulation } from '../execution/simulation.js';
+import { PriorityFee } from '../execution/priorityFees.js';
+
+/**
+ * Split routing: send part of an order to one pool and the rest to another pool of the same pair
+ * when the combined output beats the best single venue (price impact on a CPMM grows with size,
+ * so two partial fills can out-yield one full fill).
+ */
+
+export type SplitLeg = { dex: Quote['dex']; poolId?: string; amountInBn: BN; outAmountBn: BN; details: any };
+
+export type SplitRoute = {
+  legs: SplitLeg[];
+  outAmountBn: BN;
+  bestSingle: { dex: Quote['dex']; outAmountBn: BN };
+  improvementBn: BN;
+  improvementBps: number;
+};
+
+type VenueQuoter = { dex: Quote['dex']; poolId?: string; quote: (amountInBn: BN) => Promise<Quote> };
+
+export function splitRoutingEnabled() {
+  return (process.env.SPLIT_ROUTING ?? 'true').toLowerCase() === 'true';
+}
+
+/** Serializable form of a split route for routing_info / WS payloads */
+export function describeSplitRoute(route: SplitRoute) {
+  return {
+    legs: route.legs.map(l => ({
+      dex: l.dex,
+      poolId: l.poolId ?? null,
+      amountIn: l.amountInBn.toString(),
+      estimatedOut: l.outAmountBn.toString(),
+      fee: l.details?.fee ?? null
+    })),
+    estimatedOut: route.outAmountBn.toString(),
+    bestSingle: { dex: route.bestSingle.dex, estimatedOut: route.bestSingle.outAmountBn.toString() },
+    improvement: route.improvementBn.toString(),
+    improvementBps: route.improvementBps
+  };
+}
+
+/**
+ * Grid-search the allocation between two venues in `stepPercent` increments (0% and 100% included,
+ * so the best single-venue fill is always a candidate). A venue whose quote throws at some size is
+ * treated as unavailable for that allocation. Returns null if no allocation could be quoted.
+ */
+export async function optimizeSplit(amountInBn: BN, venues: [VenueQuoter, VenueQuoter], stepPercent = 10) {
+  const step = Math.min(Math.max(Math.floor(stepPercent), 1), 50);
+  const [a, b] = venues;
+
+  const quoteOrNull = async (v: VenueQuoter, amt: BN): Promise<Quote | null> => {
+    if (amt.isZero()) return { dex: v.dex, outAmountBn: new BN(0), details: {} };
+    try {
+      return await v.quote(amt);
+    } catch (e) {
+      console.debug('[splitRouter] venue quote failed for allocation', { dex: v.dex, amountIn: amt.toString(), error: String(e) });
+      return null;
+    }
+  };
+
+  let best: { legs: SplitLeg[]; outAmountBn: BN } | null = null;
+  let bestSingle: { dex: Quote['dex']; outAmountBn: BN } | null = null;
+
+  for (let pct = 0; pct <= 100; pct += step) {
+    const amtA = amountInBn.muln(pct).divn(100);
+    const amtB = amountInBn.sub(amtA);
+    const [qa, qb] = await Promise.all([quoteOrNull(a, amtA), quoteOrNull(b, amtB)]);
+    if (!qa || !qb) continue;
+
+    const legs: SplitLeg[] = [];
+    if (!amtA.isZero()) legs.push({ dex: a.dex, poolId: qa.poolId ?? a.poolId, amountInBn: amtA, outAmountBn: qa.outAmountBn, details: qa.details });
+    if (!amtB.isZero()) legs.push({ dex: b.dex, poolId: qb.poolId ?? b.poolId, amountInBn: amtB, outAmountBn: qb.outAmountBn, details: qb.details });
+    const total = qa.outAmountBn.add(qb.outAmountBn);
+
+    if (legs.length === 1 && (!bestSingle || total.gt(bestSingle.outAmountBn))) {
+      bestSingle = { dex: legs[0].dex, outAmountBn: total };
+    }
+    if (!best || total.gt(best.outAmountBn)) best = { legs, outAmountBn: total };
+  }
+
+  if (!best) return null;
+  // if neither single-venue fill could be quoted, compare against the split itself (no improvement)
+  const single = bestSingle ?? { dex: best.legs[0].dex, outAmountBn: best.outAmountBn };
+  const improvementBn = best.outAmountBn.sub(single.outAmountBn);
+  const improvementBps = single.outAmountBn.isZero() ? 0 : improvementBn.muln(10000).div(single.outAmountBn).toNumber();
+  return { legs: best.legs, outAmountBn: best.outAmountBn, bestSingle: single, improvementBn, improvementBps } as SplitRoute;
+}
+
+/**
+ * Quoter for one pool. Adapters with loadQuoter load the pool's state on the first quote and answer
+ * every later size from it, so a grid search costs one pool load per venue instead of one per point.
+ */
+function poolQuoter(conn: Connection, pool: PoolInfo, tokenIn: string): VenueQuoter {
+  const adapter = getAdapter(pool.venue);
+  let local: Promise<(amountInBn: BN) => Quote> | null = null;
+  return {
+    dex: pool.venue,
+    poolId: pool.poolId,
+    quote: async (amt) => {
+      if (!adapter.loadQuoter) return adapter.quote({ conn, poolId: pool.poolId, tokenIn, amountInBn: amt });
+      local ??= adapter.loadQuoter({ conn, poolId: pool.poolId, tokenIn });
+      return (await local)(amt);
+    }
+  };
+}
+
+/**
+ * Search allocations between the two best direct pools of this pair (with more than two, pools are
+ * ranked by their full-size quote). Returns a route only when it has two legs and beats the best
+ * single venue by at least SPLIT_MIN_IMPROVEMENT_BPS (each leg is an extra tx fee).
+ */
+export async function getBestSplitQuote(params: {
+  conn: Connection;
+  amountInBn: BN;
+  tokenIn: string;
+  tokenOut: string;
+  // pools trading tokenIn/tokenOut directly
+  pools: PoolInfo[];
+}): Promise<SplitRoute | null> {
+  const { conn, amountInBn, tokenIn } = params;
+  let quoters = params.pools.filter(p => isAdapterEnabled(p.venue)).map(p => poolQuoter(conn, p, tokenIn));
+  if (quoters.length < 2) return null;
+
+  if (quoters.length > 2) {
+    const ranked = await Promise.all(quoters.map(async (v) => ({
+      v,
+      out: await v.quote(amountInBn).then(q => q.outAmountBn, () => null)
+    })));
+    quoters = ranked.filter(r => r.out).sort((x, y) => y.out!.cmp(x.out!)).slice(0, 2).map(r => r.v);
+    if (quoters.length < 2) return null;
+  }
+
+  const route = await optimizeSplit(amountInBn, [quoters[0], quoters[1]], Number(process.env.SPLIT_STEP_PERCENT ?? 10));
+
+  if (!route) return null;
+  const minImprovementBps = Number(process.env.SPLIT_MIN_IMPROVEMENT_BPS ?? 5);
+  console.info('[splitRouter] best allocation', describeSplitRoute(route));
+  if (route.legs.length < 2 || route.improvementBps < minImprovementBps) return null;
+  return route;
+}
+
+/** A leg's share of the route's minimum output, rounded up so the shares add up to at least the total */
+export function legMinOut(minOutBn: BN, leg: SplitLeg, route: SplitRoute) {
+  if (route.outAmountBn.isZero()) return minOutBn;
+  return minOutBn.mul(leg.outAmountBn).add(route.outAmountBn.subn(1)).div(route.outAmountBn);
+}
+
+/**
+ * Execute every leg of a split route in turn. A failed leg does not undo earlier legs, so instead of
+ * throwing after a partial fill (which would make a retry swap the filled legs again) the result is
+ * returned with `partial: true` and per-leg errors.
+ */
+export async function executeSplitSwap(params: {
+  conn: Connection;
+  wallet: Keypair;
+  route: SplitRoute;
+  tokenIn: string;
+  tokenOut: string;
+  slippagePercent?: number;
+  // required minimum total output (firm quotes), shared by the legs in proportion to their estimates
+  minOutBn?: BN;
+  guard?: ExecutionGuard;
+  dryRun?: boolean;
+  // priority fee cap for each leg
+  maxPriorityFeeLamports?: number | null;
+}) {
+  const legs: { dex: string; amountIn: string; txId: string | null; executedOut: string | null; fillUnknown?: boolean; error?: string; simulation?: ReturnType<typeof describeSimulation>; priorityFee?: PriorityFee | null }[] = [];
+  let executedOutBn = new BN(0);
+  // what the filled legs actually spent
+  let executedInBn = new BN(0);
+  // a leg whose transaction could not be read leaves the totals unknown
+  let fillUnknown = false;
+
+  for (const [i, leg] of params.route.legs.entries()) {
+    try {
+      const res = await executeSwap({
+        conn: params.conn,
+        wallet: params.wallet,
+        dex: leg.dex,
+        tokenIn: params.tokenIn,
+        tokenOut: params.tokenOut,
+        amountInBn: leg.amountInBn,
+        slippagePercent: params.slippagePercent,
+        minOutBn: params.minOutBn ? legMinOut(params.minOutBn, leg, params.route) : undefined,
+        poolId: leg.poolId,
+        guard: guardLeg(params.guard, `split:${i}`),
+        dryRun: params.dryRun,
+        maxPriorityFeeLamports: params.maxPriorityFeeLamports
+      });
+      if (res.fillUnknown) fillUnknown = true;
+      if (res.executedOutBn) executedOutBn = executedOutBn.add(res.executedOutBn);
+      executedInBn = executedInBn.add(res.fill?.amountInBn ?? leg.amountInBn);
+      legs.push({
+        dex: res.dex,
+        amountIn: leg.amountInBn.toString(),
+        txId: res.txId,
+        executedOut: res.executedOutBn?.toString() ?? null,
+        ...(res.fillUnknown ? { fillUnknown: true } : {}),
+        ...(res.simulation ? { simulation: describeSimulation(res.simulation) } : {}),
+        ...(res.priorityFee ? { priorityFee: res.priorityFee } : {})
+      });
+    } catch (e) {
+      console.error('[splitRouter] leg failed', { dex: leg.dex, amountIn: leg.amountInBn.toString(), error: String(e) });
+      // nothing filled yet: surface the error so the job can be retried as a whole
+      if (legs.length === 0) throw e;
+      legs.push({ dex: leg.dex, amountIn: leg.amountInBn.toString(), txId: null, executedOut: null, error: String(e) });
+    }
+  }
+
+  const partial = legs.some(l => l.error);
+  console.info('[splitRouter] split execution complete', { legs, executedIn: executedInBn.toString(), executedOut: executedOutBn.toString(), partial, fillUnknown });
+  if (fillUnknown) return { legs, executedInBn: null, executedOutBn: null, partial, fillUnknown };
+  return { legs, executedInBn: executedInBn as BN | null, executedOutBn: executedOutBn as BN | null, partial, fillUnknown };
+}
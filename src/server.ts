@@ -8,28 +8,120 @@ import { Queue } from 'bullmq';
 import {Redis} from 'ioredis';
 import * as crypto from 'crypto';
 import { insertOrder } from './config/db.js';
+import { ORDER_QUEUE_NAME, enqueueOrderExecution } from './queue/orderQueue.js';
+import { parseDecimalToScaled } from './utils/price.js';
+import { isTriggerOrderType } from './triggers/triggerRules.js';
+import { createTwapOrder, planTwapSlices } from './orders/twap.js';
+import {
+  listPools, upsertPool, deletePool, getOrderById, listOrders, listApiKeys, revokeApiKey, listWebhookDeliveries, getWebhookDelivery
+} from './config/db.js';
+import { isOrderId, parseOrderListQuery, toOrderPage } from './orders/orderQuery.js';
+import { cancelOrder } from './orders/cancel.js';
+import { IDEMPOTENCY_HEADER, isValidIdempotencyKey, requestHash, checkIdempotencyKey, IdempotencyCheck } from './orders/idempotency.js';
+import { isPairSupported, invalidatePoolRegistry } from './router/poolRegistry.js';
+import { isAdapterRegistered } from './router/adapters/index.js';
+import { Connection } from '@solana/web3.js';
+import BN from 'bn.js';
+import { previewQuotes } from './quotes/quotePreview.js';
+import { createFirmQuote, peekFirmQuote, takeFirmQuote, lockQuote, FirmQuote } from './quotes/firmQuotes.js';
+import { ApiKeyAuth, apiAuthEnabled, apiKeyFromHeaders, authenticateApiKey, createApiKey } from './auth/apiKeys.js';
+import { takeRateLimitToken } from './auth/rateLimit.js';
+import { webhooksEnabled, redeliverWebhook, callbackUrlError } from './webhooks/webhooks.js';
+import { openSseStream, lastEventId, failSseStream } from './api/sse.js';
+import { assertWsSecretsConfigured, createWsToken, verifyWsToken, wsTokenTtlSec, WsTokenClaims } from './auth/wsTokens.js';
+import {
+  ajvOptions, toFieldErrors, validationFailed,
+  QuoteBody, quoteBodySchema, ExecuteOrderBody, executeOrderBodySchema, PoolBody, poolBodySchema,
+  OrderListQuery, orderListQuerySchema, orderIdParamsSchema, poolParamsSchema, ApiKeyBody, apiKeyBodySchema,
+  WebhookListQuery, webhookListQuerySchema, webhookParamsSchema
+} from './api/schemas.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    // set by the API key hook; null for public routes or with API_AUTH=off
+    auth: ApiKeyAuth | null;
+  }
+  interface FastifyContextConfig {
+    // the route authenticates with a WS token instead of an API key
+    wsTokenAuth?: boolean;
+  }
+}
 
 // create server instance (no top-level await)
-const server = fastify({ logger: true });
+const server = fastify({ logger: true, ajv: ajvOptions });
+
+// explicit order subscriptions one socket may hold (a user feed covers any number of orders)
+const MAX_WS_ORDER_SUBSCRIPTIONS = 100;
+
+/** `{ wsToken, wsUrl }` for a socket that follows one order */
+function orderWsAccess(orderId: string) {
+  const wsToken = createWsToken({ orderId });
+  return { wsToken, wsUrl: `/ws?token=${encodeURIComponent(wsToken)}` };
+}
+
+/**
+ * The order a WS token lets the socket follow: an order token covers its own order, a user token
+ * any order that user owns. `orderId` defaults to the order token's own order.
+ */
+async function orderForWsToken(claims: WsTokenClaims | null, orderId?: string | null): Promise<string | null> {
+  if (!claims) return null;
+  if ('orderId' in claims) return !orderId || orderId === claims.orderId ? claims.orderId : null;
+  if (!orderId || !isOrderId(orderId)) return null;
+  const order = await getOrderById(orderId);
+  return order && order.user_id === claims.userId ? orderId : null;
+}
 
 /**
- * Create a WS auth token (HMAC) for a given orderId
+ * Answer a repeated Idempotency-Key request: the original order for the same body, 422 otherwise.
  */
-function createWsToken(orderId: string) {
-  const secret = process.env.WS_SECRET || 'hello_world';
-  return `${orderId}:${crypto.createHmac('sha256', secret).update(orderId).digest('hex')}`;
+function sendIdempotentResult(reply: any, check: Exclude<IdempotencyCheck, { kind: 'new' }>) {
+  if (check.kind === 'mismatch') {
+    return reply.status(422).send({ error: 'idempotency_key_mismatch', message: 'Idempotency-Key was already used with a different request body' });
+  }
+  return reply
+    .header('Idempotent-Replayed', 'true')
+    .send({ orderId: check.orderId, status: check.status, ...orderWsAccess(check.orderId) });
 }
 
 /**
- * Verify a WS token and return the orderId if valid, otherwise null
+ * Parse a strictly positive decimal price from the request body, or null if invalid.
  */
-function verifyWsToken(token: string | null | undefined) {
-  if (!token) return null;
-  const parts = token.split(':');
-  if (parts.length !== 2) return null;
-  const [orderId, sig] = parts;
-  const expected = crypto.createHmac('sha256', process.env.WS_SECRET || 'hello_world').update(orderId).digest('hex');
-  return expected === sig ? orderId : null;
+function parsePositivePrice(value: any): string | null {
+  if (value == null) return null;
+  const str = String(value);
+  try {
+    return parseDecimalToScaled(str).isZero() ? null : str;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Admin routes require `x-admin-token` to match ADMIN_TOKEN; without ADMIN_TOKEN they are disabled.
+ * Sends the error reply and returns false when the caller is not an admin.
+ */
+function requireAdmin(req: any, reply: any) {
+  const expected = process.env.ADMIN_TOKEN;
+  if (!expected) {
+    reply.status(403).send({ error: 'admin_api_disabled' });
+    return false;
+  }
+  const given = String(req.headers?.['x-admin-token'] ?? '');
+  const ok = given.length === expected.length && crypto.timingSafeEqual(Buffer.from(given), Buffer.from(expected));
+  if (!ok) {
+    reply.status(401).send({ error: 'unauthorized' });
+    return false;
+  }
+  return true;
+}
+
+/** With authentication on, orders are only visible to the user whose key placed them */
+function canSeeOrder(req: any, order: any) {
+  return !req.auth || order.user_id === req.auth.userId;
+}
+
+function poolResponse(r: any) {
+  return { venue: r.venue, poolId: r.pool_id, mintA: r.mint_a, mintB: r.mint_b, poolType: r.pool_type, enabled: r.enabled, createdAt: r.created_at, updatedAt: r.updated_at };
 }
 
 /**
@@ -49,50 +141,250 @@ function buildRequestUrl(req: any) {
  * Main bootstrap to register plugins and routes.
  */
 async function main() {
+  // refuse to start in production without a WS token secret
+  assertWsSecretsConfigured();
+
   // Register websocket plugin (awaited inside main)
   await server.register(websocketPlugin);
 
-  // Setup Redis and BullMQ queue
+  // Setup Redis and BullMQ queue (the rate limiter below uses the same connection)
   const redisUrl = process.env.REDIS_URL!;
   const redis = new Redis(redisUrl, { maxRetriesPerRequest: null });
-  const queue = new Queue('orders', { connection: redis });
+  const queue = new Queue(ORDER_QUEUE_NAME, { connection: redis });
+  const solana = new Connection(process.env.SOLANA_RPC || 'https://api.devnet.solana.com', 'confirmed');
+
+  // API key authentication and per-key rate limiting for the client API (admin routes use ADMIN_TOKEN)
+  server.decorateRequest('auth', null);
+  server.addHook('onRequest', async (req, reply) => {
+    const route = req.routeOptions.url ?? '';
+    if (!route.startsWith('/api/') || route.startsWith('/api/admin/') || req.routeOptions.config?.wsTokenAuth || !apiAuthEnabled()) return;
+
+    const auth = await authenticateApiKey(apiKeyFromHeaders(req.headers));
+    if (!auth) return reply.status(401).send({ error: 'unauthorized', message: 'a valid API key is required (x-api-key header)' });
+    req.auth = auth;
+
+    const limit = await takeRateLimitToken(redis, auth.keyId);
+    reply.header('X-RateLimit-Limit', limit.limit);
+    reply.header('X-RateLimit-Remaining', limit.remaining);
+    if (!limit.allowed) {
+      const retryAfterSec = Math.max(1, Math.ceil(limit.retryAfterMs / 1000));
+      return reply.status(429).header('Retry-After', retryAfterSec).send({ error: 'rate_limited', message: `rate limit exceeded; retry in ${retryAfterSec}s` });
+    }
+  });
+
+  // schema failures share the validation_failed shape; anything else that escapes a route is logged
+  server.setErrorHandler((err: any, req, reply) => {
+    if (err.validation) return validationFailed(reply, toFieldErrors(err.validation));
+    const status = err.statusCode ?? 500;
+    if (status >= 500) req.log.error({ err }, 'unhandled route error');
+    return reply.status(status).send(status >= 500 ? { error: 'internal_error' } : { error: 'bad_request', message: err.message });
+  });
+
+  // POST /api/quotes - preview every venue's quote for a pair; nothing is enqueued or persisted
+  server.post<{ Body: QuoteBody }>('/api/quotes', { schema: { body: quoteBodySchema } }, async (req, reply) => {
+    try {
+      const body = req.body;
+      const amountIn = body.amount_in;
+      const slippage = body.slippage ?? 1.0;
+      if (body.token_in === body.token_out) {
+        return validationFailed(reply, [{ field: 'token_out', message: 'must differ from token_in' }]);
+      }
+      if (!(await isPairSupported(body.token_in, body.token_out))) {
+        return reply.status(400).send({ error: 'unsupported_pair', message: `no registered pool or route for ${body.token_in} -> ${body.token_out}` });
+      }
+
+      const preview = await previewQuotes({
+        conn: solana,
+        amountInBn: new BN(amountIn),
+        tokenIn: body.token_in,
+        tokenOut: body.token_out,
+        slippagePercent: slippage
+      });
+
+      // the chosen quote is firm: executing with its quoteId locks its pools and min out
+      const chosen = preview.quotes.find((q) => q.chosen);
+      const pools = chosen?.hops ?? (chosen?.poolId ? [{ venue: chosen.venue, poolId: chosen.poolId }] : []);
+      if (!chosen || !pools.length) return reply.send({ ...preview, quoteId: null, expiresAt: null });
+      const firm = await createFirmQuote(redis, {
+        venue: chosen.venue,
+        poolId: chosen.poolId,
+        path: chosen.path ?? null,
+        pools,
+        tokenIn: body.token_in,
+        tokenOut: body.token_out,
+        amountIn,
+        expectedOut: chosen.expectedOut!,
+        minOut: chosen.minOut!,
+        slippage
+      });
+      return reply.send({ ...preview, quoteId: firm.quoteId, expiresAt: new Date(firm.expiresAt).toISOString() });
+    } catch (err: any) {
+      server.log.error({err}, 'quotes route error');
+      return reply.status(500).send({ error: 'internal_error' });
+    }
+  });
 
   // POST /api/orders/execute
-  server.post('/api/orders/execute', async (req, reply) => {
+  server.post<{ Body: ExecuteOrderBody }>('/api/orders/execute', { schema: { body: executeOrderBodySchema } }, async (req, reply) => {
     try {
-      const body = req.body as any;
-      if (!body?.token_in || !body?.token_out || !body?.amount_in) {
-        return reply.status(400).send({ error: 'token_in, token_out, amount_in required' });
+      const body = req.body;
+      const type = body.type;
+      // orders belong to the API key's user, never to a user_id sent by the client
+      const userId = req.auth?.userId ?? null;
+      // webhook target: the order's own callback_url, else the API key's default
+      if (body.callback_url && !webhooksEnabled()) {
+        return validationFailed(reply, [{ field: 'callback_url', message: 'webhooks are not enabled on this server' }]);
+      }
+      const callbackBlocked = body.callback_url ? await callbackUrlError(body.callback_url) : null;
+      if (callbackBlocked) return validationFailed(reply, [{ field: 'callback_url', message: callbackBlocked }]);
+      const callbackUrl = body.callback_url ?? (webhooksEnabled() ? req.auth?.callbackUrl : null) ?? null;
+      // a dry run simulates one immediate swap; parked and sliced orders have nothing to simulate yet
+      if (body.dry_run && type !== 'market') {
+        return validationFailed(reply, [{ field: 'dry_run', message: 'is only supported for market orders' }]);
+      }
+
+      // idempotent retries: checked before the firm quote below is taken
+      let idempotencyKey: string | null = null;
+      let bodyHash: string | null = null;
+      const rawKey = req.headers[IDEMPOTENCY_HEADER];
+      if (rawKey != null) {
+        if (typeof rawKey !== 'string' || !isValidIdempotencyKey(rawKey)) {
+          return reply.status(400).send({ error: 'invalid_idempotency_key', message: 'Idempotency-Key must be 1-255 printable ASCII characters' });
+        }
+        idempotencyKey = rawKey;
+        bodyHash = requestHash(body);
+        const check = await checkIdempotencyKey(idempotencyKey, bodyHash, userId);
+        if (check.kind !== 'new') return sendIdempotentResult(reply, check);
+      }
+      // lost the insert race to a concurrent request with the same key
+      const replayConflict = async () => {
+        const check = await checkIdempotencyKey(idempotencyKey!, bodyHash!, userId);
+        if (check.kind === 'new') throw new Error(`idempotency conflict without an order for key ${idempotencyKey}`);
+        return sendIdempotentResult(reply, check);
+      };
+
+      // single use: a concurrent retry may have taken the quote for this very key
+      const quoteGone = async () => {
+        if (idempotencyKey && (await checkIdempotencyKey(idempotencyKey, bodyHash!, userId)).kind !== 'new') return replayConflict();
+        return reply.status(400).send({ error: 'quote_expired', message: 'quote not found or expired; request a new quote' });
+      };
+
+      // firm quote: the pair and amount come from the quote; any given in the body must match it.
+      // It is only read here and taken once every check has passed, so a rejected request keeps it.
+      let firmQuote: FirmQuote | null = null;
+      if (body.quoteId) {
+        firmQuote = await peekFirmQuote(redis, body.quoteId);
+        if (!firmQuote) return quoteGone();
+        const mismatch = (body.token_in && body.token_in !== firmQuote.tokenIn)
+          || (body.token_out && body.token_out !== firmQuote.tokenOut)
+          || (body.amount_in && body.amount_in !== firmQuote.amountIn);
+        if (mismatch) {
+          return reply.status(400).send({ error: 'quote_mismatch', message: 'token_in, token_out and amount_in must match the quote' });
+        }
+        body.token_in = firmQuote.tokenIn;
+        body.token_out = firmQuote.tokenOut;
+        body.amount_in = firmQuote.amountIn;
+        body.slippage = firmQuote.slippage;
       }
 
+      if (body.token_in === body.token_out) {
+        return validationFailed(reply, [{ field: 'token_out', message: 'must differ from token_in' }]);
+      }
+      // wrapping native SOL sends a transaction before the swap, which a dry run must not do
+      if (body.dry_run && body.token_in === 'SOL') {
+        return validationFailed(reply, [{ field: 'dry_run', message: 'is not supported for native SOL input; use the WSOL mint' }]);
+      }
+
+      if (!(await isPairSupported(body.token_in, body.token_out))) {
+        return reply.status(400).send({ error: 'unsupported_pair', message: `no registered pool or route for ${body.token_in} -> ${body.token_out}` });
+      }
+
+      if (type === 'twap') {
+        const slices = body.slices!;
+        const durationSec = body.duration!;
+        try {
+          planTwapSlices(body.amount_in, slices, durationSec * 1000);
+        } catch (e: any) {
+          return validationFailed(reply, [{ field: 'amount_in', message: String(e?.message ?? e) }]);
+        }
+        const id = uuidv4();
+        const children = await createTwapOrder(queue, {
+          id,
+          user_id: userId,
+          token_in: body.token_in,
+          token_out: body.token_out,
+          amount_in: body.amount_in.toString(),
+          slippage: body.slippage ?? 1.0,
+          slices,
+          durationSec,
+          idempotency_key: idempotencyKey,
+          request_hash: bodyHash,
+          callback_url: callbackUrl,
+          max_priority_fee_lamports: body.max_priority_fee_lamports ?? null
+        });
+        if (!children) return replayConflict();
+        return reply.send({
+          orderId: id,
+          status: 'running',
+          slices: children.map((c) => ({ orderId: c.orderId, index: c.index, amountIn: c.amountIn, delayMs: c.delayMs })),
+          ...orderWsAccess(id)
+        });
+      }
+      let limitPrice: string | null = null;
+      let triggerPrice: string | null = null;
+      if (type === 'limit') {
+        limitPrice = parsePositivePrice(body.limit_price);
+        if (!limitPrice) return validationFailed(reply, [{ field: 'limit_price', message: 'must be a positive decimal' }]);
+      }
+      if (isTriggerOrderType(type)) {
+        triggerPrice = parsePositivePrice(body.trigger_price);
+        if (!triggerPrice) return validationFailed(reply, [{ field: 'trigger_price', message: 'must be a positive decimal' }]);
+      }
+      // conditional orders are parked until the trigger service sees the price cross
+      const initialStatus = type === 'limit' ? 'waiting' : (triggerPrice ? 'armed' : 'pending');
+
+      if (firmQuote && !(await takeFirmQuote(redis, firmQuote.quoteId))) return quoteGone();
+
       const id = uuidv4();
-      await insertOrder({
+      const inserted = await insertOrder({
         id,
-        user_id: body.user_id ?? null,
-        type: body.type ?? 'market',
+        user_id: userId,
+        type,
         token_in: body.token_in,
         token_out: body.token_out,
         amount_in: body.amount_in.toString(),
-        slippage: body.slippage ?? 1.0
+        slippage: body.slippage ?? 1.0,
+        status: initialStatus,
+        limit_price: limitPrice,
+        trigger_price: triggerPrice,
+        quote_id: firmQuote?.quoteId ?? null,
+        idempotency_key: idempotencyKey,
+        request_hash: bodyHash,
+        callback_url: callbackUrl,
+        dry_run: body.dry_run ?? false,
+        max_priority_fee_lamports: body.max_priority_fee_lamports ?? null
       });
+      if (inserted.rowCount === 0) return replayConflict();
 
-      // create WS token
-      const wsToken = createWsToken(id);
+      if (initialStatus !== 'pending') {
+        const mod = await import('./websocket/wsManager.js');
+        await mod.publishOrderUpdate(id, { orderId: id, status: initialStatus, timestamp: new Date().toISOString(), meta: { type, limitPrice, triggerPrice } });
+        return reply.send({ orderId: id, status: initialStatus, ...orderWsAccess(id) });
+      }
 
       // enqueue with BullMQ
-      await queue.add('execute', {
+      await enqueueOrderExecution(queue, {
         orderId: id,
         token_in: body.token_in,
         token_out: body.token_out,
         amount_in: body.amount_in.toString(),
-        slippage: body.slippage ?? 1.0
-      }, {
-        attempts: 3,
-        backoff: { type: 'exponential', delay: 1000 },
-        removeOnComplete: true,
+        slippage: body.slippage ?? 1.0,
+        quote: firmQuote ? lockQuote(firmQuote) : null,
+        max_priority_fee_lamports: body.max_priority_fee_lamports ?? null,
+        ...(body.dry_run ? { dry_run: true } : {})
       });
 
-      return reply.send({ orderId: id, wsToken, wsUrl: `/ws?token=${encodeURIComponent(wsToken)}` });
+      return reply.send({ orderId: id, ...(firmQuote ? { quoteId: firmQuote.quoteId } : {}), ...(body.dry_run ? { dryRun: true } : {}), ...orderWsAccess(id) });
     } catch (err: any) {
       server.log.error({err}, 'execute route error');
       return reply.status(500).send({ error: 'internal_error' });
@@ -117,8 +409,81 @@ async function main() {
     const url = buildRequestUrl(req);
     const token = url.searchParams.get('token') ?? null;
 
-    // Client can also send JSON { action: 'auth', token: '...' }
-    let authedOrderId: string | null = null;
+    // what this socket follows: explicitly subscribed orders, and at most one user's feed
+    const orderIds = new Set<string>();
+    let userClaims: WsTokenClaims | null = null;
+    let userFeed: string | null = null;
+    // set on close; a subscribe still awaiting must not register the socket after its cleanup ran
+    let closed = false;
+
+    // dynamic import to avoid circular dependency at module load
+    const manager = () => import('./websocket/wsManager.js');
+    const send = (msg: any) => { try { ws.send(JSON.stringify(msg)); } catch {} };
+
+    // an order of the followed user already arrives through the user feed
+    const coveredByUserFeed = async (orderId: string) => !!userFeed && !!(await orderForWsToken(userClaims, orderId));
+
+    // past events are replayed from the order's log, after `lastSeq` when the client resumes
+    const followOrder = async (orderId: string, lastSeq?: number) => {
+      const mod = await manager();
+      if (orderIds.has(orderId)) return send({ status: 'subscribed', orderId });
+      if (await coveredByUserFeed(orderId)) {
+        send({ status: 'subscribed', orderId });
+        await mod.replayOrderEvents(orderId, ws, lastSeq);
+        return;
+      }
+      if (closed) return;
+      if (orderIds.size >= MAX_WS_ORDER_SUBSCRIPTIONS) return send({ error: 'too_many_subscriptions', orderId });
+      orderIds.add(orderId);
+      send({ status: 'subscribed', orderId });
+      await mod.subscribeSocket(orderId, ws, { lastSeq });
+    };
+
+    const followUser = async (claims: WsTokenClaims & { userId: string }) => {
+      userClaims = claims;
+      const mod = await manager();
+      if (closed) return;
+      if (userFeed !== claims.userId) {
+        if (userFeed) mod.unsubscribeUserSocket(userFeed, ws);
+        userFeed = claims.userId;
+        mod.subscribeUserSocket(userFeed, ws);
+        // explicit subscriptions to this user's orders would now deliver every event twice
+        for (const orderId of Array.from(orderIds)) {
+          if (await coveredByUserFeed(orderId)) {
+            orderIds.delete(orderId);
+            mod.unsubscribeSocket(orderId, ws);
+          }
+        }
+      }
+      send({ status: 'subscribed', userId: userFeed });
+    };
+
+    // `lastSeq` is a number, or for several orders an object of orderId -> seq
+    const lastSeqFor = (lastSeq: any, orderId: string): number | undefined => {
+      const v = lastSeq && typeof lastSeq === 'object' ? lastSeq[orderId] : lastSeq;
+      return Number.isInteger(v) && v >= 0 ? v : undefined;
+    };
+
+    /** Follow what the token covers: the user's feed for a user token, the order for an order token */
+    const authenticate = async (token: string, via: string, lastSeq?: any) => {
+      const claims = verifyWsToken(token);
+      if (claims && 'userId' in claims) {
+        await followUser(claims);
+        server.log.info({ userId: claims.userId }, `ws client subscribed to user feed via ${via}`);
+        return true;
+      }
+      const id = await orderForWsToken(claims);
+      if (!id) return false;
+      await followOrder(id, lastSeqFor(lastSeq, id));
+      server.log.info({ orderId: id }, `ws client subscribed via ${via}`);
+      return true;
+    };
+
+    // a user token given earlier stays usable for subscribe messages until it expires
+    const liveUserClaims = () => (userClaims && userClaims.exp * 1000 > Date.now() ? userClaims : null);
+
+    const requestedOrderIds = (data: any): string[] =>
+      (Array.isArray(data.orderIds) ? data.orderIds : data.orderId ? [data.orderId] : []).map(String).slice(0, MAX_WS_ORDER_SUBSCRIPTIONS);
 
     // async message handler to support dynamic import()
     ws.on('message', async (msg: any) => {
@@ -134,70 +499,232 @@ async function main() {
         }
 
         if (data?.action === 'auth' && data?.token) {
-          const id = verifyWsToken(data.token);
-          if (!id) {
-            try { ws.send(JSON.stringify({ error: 'invalid_token' })); } catch {}
+          if (!(await authenticate(String(data.token), 'auth', data.lastSeq))) {
+            send({ error: 'invalid_token' });
             try { ws.close?.(); } catch {}
+          }
+          return;
+        }
+
+        // { action: 'subscribe', scope: 'user' } or { action: 'subscribe', orderId | orderIds }, with an optional token
+        if (data?.action === 'subscribe') {
+          const claims = data.token ? verifyWsToken(String(data.token)) : liveUserClaims();
+          if (data.scope === 'user') {
+            if (claims && 'userId' in claims) await followUser(claims);
+            else send({ error: 'invalid_token' });
             return;
           }
-          authedOrderId = id;
-          // dynamic import to avoid circular dependency at module load
-          const mod = await import('./websocket/wsManager.js');
-          mod.subscribeSocket(authedOrderId, ws);
-          try { ws.send(JSON.stringify({ status: 'subscribed', orderId: authedOrderId })); } catch {}
-          server.log.info({ orderId: authedOrderId }, 'ws client subscribed via auth');
+          for (const orderId of requestedOrderIds(data)) {
+            const id = await orderForWsToken(claims, orderId);
+            if (id) await followOrder(id, lastSeqFor(data.lastSeq, id));
+            else send({ error: 'invalid_token_for_order', orderId });
+          }
           return;
         }
 
-        if (data?.action === 'subscribe' && data?.orderId && data?.token) {
-          const id = verifyWsToken(data.token);
-          if (!id || id !== data.orderId) {
-            try { ws.send(JSON.stringify({ error: 'invalid_token_for_order' })); } catch {}
+        if (data?.action === 'unsubscribe') {
+          const mod = await manager();
+          if (data.scope === 'user') {
+            if (userFeed) mod.unsubscribeUserSocket(userFeed, ws);
+            send({ status: 'unsubscribed', userId: userFeed });
+            userFeed = null;
             return;
           }
-          authedOrderId = data.orderId;
-          const mod = await import('./websocket/wsManager.js');
-          mod.subscribeSocket(authedOrderId!, ws);
-          try { ws.send(JSON.stringify({ status: 'subscribed', orderId: authedOrderId })); } catch {}
-          server.log.info({ orderId: authedOrderId }, 'ws client subscribed via subscribe message');
+          for (const orderId of requestedOrderIds(data)) {
+            if (orderIds.delete(orderId)) mod.unsubscribeSocket(orderId, ws);
+            send({ status: 'unsubscribed', orderId });
+          }
           return;
         }
 
         if (data?.action === 'ping') {
-          try { ws.send(JSON.stringify({ action: 'pong' })); } catch {}
+          send({ action: 'pong' });
           return;
         }
       } catch (e) {
-        try { ws.send(JSON.stringify({ error: 'invalid_message' })); } catch {}
+        send({ error: 'invalid_message' });
       }
     });
 
     // try immediate token auth from query param (non-blocking)
     (async () => {
-      if (token) {
-        const id = verifyWsToken(token);
-        if (id) {
-          authedOrderId = id;
-          const mod = await import('./websocket/wsManager.js');
-          mod.subscribeSocket(authedOrderId, ws);
-          try { ws.send(JSON.stringify({ status: 'subscribed', orderId: authedOrderId })); } catch {}
-          server.log.info({ orderId: authedOrderId }, 'ws client subscribed via query token');
-        }
-      }
+      if (token) await authenticate(token, 'query token', Number(url.searchParams.get('lastSeq') ?? NaN));
     })().catch((e) => server.log.warn({e}, 'ws immediate auth error'));
 
     ws.on('close', async () => {
-      if (authedOrderId) {
-        try {
-          const mod = await import('./websocket/wsManager.js');
-          mod.unsubscribeSocket(authedOrderId, ws);
-        } catch (e: any) {
-          server.log.warn({e}, 'ws unsubscribe failed');
-        }
+      closed = true;
+      if (!orderIds.size && !userFeed) return;
+      try {
+        const mod = await manager();
+        for (const orderId of orderIds) mod.unsubscribeSocket(orderId, ws);
+        if (userFeed) mod.unsubscribeUserSocket(userFeed, ws);
+      } catch (e: any) {
+        server.log.warn({e}, 'ws unsubscribe failed');
       }
     });
   });
 
+  // GET /api/orders - newest first, filtered by status, token_in / token_out, from / to (and the key's user)
+  server.get<{ Querystring: OrderListQuery }>('/api/orders', { schema: { querystring: orderListQuerySchema } }, async (req, reply) => {
+    try {
+      const parsed = parseOrderListQuery(req.query);
+      if ('error' in parsed) return validationFailed(reply, [{ field: parsed.field, message: parsed.error }]);
+      if (req.auth) parsed.filters.userId = req.auth.userId;
+      const rows = await listOrders(parsed.filters);
+      return reply.send(toOrderPage(rows, parsed.filters.limit));
+    } catch (err: any) {
+      server.log.error({err}, 'list orders route error');
+      return reply.status(500).send({ error: 'internal_error' });
+    }
+  });
+
+  // GET /api/orders/:id/events - the WebSocket's order events as Server-Sent Events, authenticated with the same token
+  server.get<{ Params: { id: string }; Querystring: { token?: string; lastEventId?: string } }>('/api/orders/:id/events', {
+    schema: { params: orderIdParamsSchema },
+    config: { wsTokenAuth: true }
+  }, async (req, reply) => {
+    try {
+      const { id } = req.params;
+      const bearer = /^Bearer\s+(\S+)$/i.exec(String(req.headers.authorization ?? ''))?.[1];
+      const orderId = await orderForWsToken(verifyWsToken(req.query.token ?? bearer), id);
+      if (!orderId) return reply.status(401).send({ error: 'invalid_token_for_order' });
+
+      const mod = await import('./websocket/wsManager.js');
+      reply.hijack();
+      const sink = openSseStream(reply.raw, (s) => mod.unsubscribeSocket(orderId, s));
+      server.log.info({ orderId }, 'sse client subscribed');
+      await mod.subscribeSocket(orderId, sink, { lastSeq: lastEventId(req.headers['last-event-id'], req.query.lastEventId) });
+    } catch (err: any) {
+      server.log.error({err}, 'order events route error');
+      // after the hijack the response is ours to finish
+      if (reply.sent) return failSseStream(reply.raw);
+      return reply.status(500).send({ error: 'internal_error' });
+    }
+  });
+
+  // GET /api/orders/:id
+  server.get<{ Params: { id: string } }>('/api/orders/:id', { schema: { params: orderIdParamsSchema } }, async (req, reply) => {
+    try {
+      const { id } = req.params;
+      const order = isOrderId(id) ? await getOrderById(id) : null;
+      if (!order || !canSeeOrder(req, order)) return reply.status(404).send({ error: 'order_not_found' });
+      return reply.send({ order });
+    } catch (err: any) {
+      server.log.error({err}, 'get order route error');
+      return reply.status(500).send({ error: 'internal_error' });
+    }
+  });
+
+  // DELETE /api/orders/:id - cancel an order that has not been submitted on-chain yet
+  server.delete<{ Params: { id: string } }>('/api/orders/:id', { schema: { params: orderIdParamsSchema } }, async (req, reply) => {
+    try {
+      const { id } = req.params;
+      if (!isOrderId(id)) return reply.status(404).send({ error: 'order_not_found' });
+      if (req.auth) {
+        const order = await getOrderById(id);
+        if (!order || !canSeeOrder(req, order)) return reply.status(404).send({ error: 'order_not_found' });
+      }
+      const res = await cancelOrder({ queue, redis }, id);
+      switch (res.outcome) {
+        case 'not_found':
+          return reply.status(404).send({ error: 'order_not_found' });
+        case 'too_late':
+          return reply.status(409).send({ error: 'too_late', message: 'order was already submitted on-chain', status: res.status });
+        case 'not_cancellable':
+          return reply.status(409).send({ error: 'not_cancellable', status: res.status });
+        default:
+          return reply.send({ orderId: id, status: res.status, ...(res.children ? { cancelledSlices: res.children } : {}), ...(res.filled ? { filled: res.filled } : {}) });
+      }
+    } catch (err: any) {
+      server.log.error({err}, 'cancel order route error');
+      return reply.status(500).send({ error: 'internal_error' });
+    }
+  });
+
+  // Pool registry admin: list / add (or update) / remove the pools the router may use
+  server.get('/api/admin/pools', async (req, reply) => {
+    if (!requireAdmin(req, reply)) return;
+    const rows = await listPools();
+    return reply.send({ pools: rows.map(poolResponse) });
+  });
+
+  server.post<{ Body: PoolBody }>('/api/admin/pools', { schema: { body: poolBodySchema } }, async (req, reply) => {
+    if (!requireAdmin(req, reply)) return;
+    const body = req.body;
+    const details = [];
+    if (!isAdapterRegistered(body.venue)) details.push({ field: 'venue', message: 'must be a registered DEX adapter' });
+    if (body.mint_a === body.mint_b) details.push({ field: 'mint_b', message: 'must differ from mint_a' });
+    if (details.length) return validationFailed(reply, details);
+    const row = await upsertPool({
+      venue: body.venue,
+      pool_id: body.pool_id,
+      mint_a: body.mint_a,
+      mint_b: body.mint_b,
+      pool_type: body.pool_type ?? null,
+      enabled: body.enabled ?? true
+    });
+    invalidatePoolRegistry();
+    server.log.info({ venue: row.venue, poolId: row.pool_id, enabled: row.enabled }, 'pool registered');
+    return reply.send({ pool: poolResponse(row) });
+  });
+
+  server.delete<{ Params: { venue: string; poolId: string } }>('/api/admin/pools/:venue/:poolId', { schema: { params: poolParamsSchema } }, async (req, reply) => {
+    if (!requireAdmin(req, reply)) return;
+    const { venue, poolId } = req.params;
+    const removed = await deletePool(venue, poolId);
+    if (!removed) return reply.status(404).send({ error: 'pool_not_found' });
+    invalidatePoolRegistry();
+    server.log.info({ venue, poolId }, 'pool removed');
+    return reply.status(204).send();
+  });
+
+  // API key admin: keys are created for a user and shown once; only their hash is stored
+  server.post<{ Body: ApiKeyBody }>('/api/admin/api-keys', { schema: { body: apiKeyBodySchema } }, async (req, reply) => {
+    if (!requireAdmin(req, reply)) return;
+    if (req.body.callback_url && !webhooksEnabled()) {
+      return validationFailed(reply, [{ field: 'callback_url', message: 'webhooks are not enabled on this server' }]);
+    }
+    const callbackBlocked = req.body.callback_url ? await callbackUrlError(req.body.callback_url) : null;
+    if (callbackBlocked) return validationFailed(reply, [{ field: 'callback_url', message: callbackBlocked }]);
+    const { key, apiKey } = await createApiKey(req.body.user_id, req.body.name ?? null, req.body.callback_url ?? null);
+    server.log.info({ keyId: apiKey.id, userId: apiKey.user_id }, 'api key created');
+    return reply.status(201).send({ key, apiKey });
+  });
+
+  server.get<{ Querystring: { user_id?: string } }>('/api/admin/api-keys', async (req, reply) => {
+    if (!requireAdmin(req, reply)) return;
+    return reply.send({ apiKeys: await listApiKeys(req.query.user_id) });
+  });
+
+  server.delete<{ Params: { id: string } }>('/api/admin/api-keys/:id', { schema: { params: orderIdParamsSchema } }, async (req, reply) => {
+    if (!requireAdmin(req, reply)) return;
+    const revoked = await revokeApiKey(req.params.id);
+    if (!revoked) return reply.status(404).send({ error: 'api_key_not_found' });
+    server.log.info({ keyId: req.params.id }, 'api key revoked');
+    return reply.status(204).send();
+  });
+
+  // webhook delivery log: list (e.g. the dead ones) and redeliver
+  server.get<{ Querystring: WebhookListQuery }>('/api/admin/webhooks', { schema: { querystring: webhookListQuerySchema } }, async (req, reply) => {
+    if (!requireAdmin(req, reply)) return;
+    const deliveries = await listWebhookDeliveries({ status: req.query.status, orderId: req.query.order_id, limit: req.query.limit });
+    return reply.send({ deliveries });
+  });
+
+  server.post<{ Params: { id: string } }>('/api/admin/webhooks/:id/redeliver', { schema: { params: webhookParamsSchema } }, async (req, reply) => {
+    if (!requireAdmin(req, reply)) return;
+    if (!webhooksEnabled()) return reply.status(409).send({ error: 'webhooks_disabled' });
+    if (!(await redeliverWebhook(req.params.id))) return reply.status(404).send({ error: 'webhook_delivery_not_found' });
+    return reply.status(202).send({ delivery: await getWebhookDelivery(req.params.id) });
+  });
+
+  // POST /api/ws-token - a user-scoped WS token covering every order of the API key's user
+  server.post('/api/ws-token', async (req, reply) => {
+    if (!req.auth) return reply.status(400).send({ error: 'user_required', message: 'user tokens need API key authentication' });
+    const wsToken = createWsToken({ userId: req.auth.userId });
+    return reply.send({ wsToken, wsUrl: `/ws?token=${encodeURIComponent(wsToken)}`, expiresAt: new Date(Date.now() + wsTokenTtlSec() * 1000).toISOString() });
+  });
+
   // health
   server.get('/health', async () => ({ ok: true }));
 
@@ -0,0 +1,16 @@
+import dotenv from 'dotenv';
+dotenv.config();
+import {Redis} from 'ioredis';
+import { Queue } from 'bullmq';
+import { Connection } from '@solana/web3.js';
+import { ORDER_QUEUE_NAME } from './queue/orderQueue.js';
+import { startTriggerService } from './triggers/triggerService.js';
+
+const redisUrl = process.env.REDIS_URL!;
+const connection = new Redis(redisUrl, { maxRetriesPerRequest: null });
+const queue = new Queue(ORDER_QUEUE_NAME, { connection });
+const conn = new Connection(process.env.SOLANA_RPC || 'https://api.devnet.solana.com', 'confirmed');
+
+console.info(`[trigger-service] starting`, { redisUrl: redisUrl ? 'provided' : 'missing' });
+
+startTriggerService({ conn, queue });
@@ -0,0 +1,32 @@
+import BN from 'bn.js';
+import { comparePrice } from '../utils/price.js';
+
+/**
+ * Pure price conditions for parked orders. Prices are out per unit in, in base units.
+ *
+ * - limit: fire when price >= limit_price (never sell below the limit)
+ * - stop_loss: fire when price <= trigger_price (exit on the way down)
+ * - take_profit: fire when price >= trigger_price (exit on the way up)
+ */
+
+export const TRIGGER_ORDER_TYPES = ['stop_loss', 'take_profit'] as const;
+export type TriggerOrderType = typeof TRIGGER_ORDER_TYPES[number];
+
+export function isTriggerOrderType(type: string): type is TriggerOrderType {
+  return (TRIGGER_ORDER_TYPES as readonly string[]).includes(type);
+}
+
+/** True when the quoted output satisfies the limit price (out / in >= limit) */
+export function limitPriceReached(quotedOutBn: BN, amountInBn: BN, limitPrice: string): boolean {
+  return comparePrice(quotedOutBn, amountInBn, limitPrice) >= 0;
+}
+
+/**
+ * Evaluate a stop-loss / take-profit condition.
+ * Returns the reason string when the trigger fires, otherwise null.
+ */
+export function evaluateTrigger(type: TriggerOrderType, quotedOutBn: BN, amountInBn: BN, triggerPrice: string): string | null {
+  const cmp = comparePrice(quotedOutBn, amountInBn, triggerPrice);
+  if (type === 'stop_loss') return cmp <= 0 ? 'price_at_or_below_stop' : null;
+  return cmp >= 0 ? 'price_at_or_above_take_profit' : null;
+}
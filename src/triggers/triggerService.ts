@@ -0,0 +1,191 @@
+import { Connection } from '@solana/web3.js';
+import { Queue } from 'bullmq';
+import BN from 'bn.js';
+import { getBestQuote, envUseMock } from '../router/dexRouter.js';
+import { getBestMultiHopQuote } from '../router/multiHop.js';
+import { getPoolRegistry, directPools } from '../router/poolRegistry.js';
+import { publishOrderUpdate } from '../websocket/wsManager.js';
+import { getParkedOrders, transitionOrderStatus, markOrderTriggered } from '../config/db.js';
+import { enqueueOrderExecution } from '../queue/orderQueue.js';
+import { priceFromAmounts } from '../utils/price.js';
+import { limitPriceReached, evaluateTrigger, isTriggerOrderType } from './triggerRules.js';
+
+/**
+ * Trigger service: keeps conditional orders parked in Postgres and periodically re-quotes them.
+ *
+ * - limit orders wait in `waiting` until the best quote gives at least `limit_price`
+ *   (min out per unit in, base units), then move to `pending` and are enqueued for the worker
+ * - stop_loss / take_profit orders wait in `armed` until the quoted price crosses `trigger_price`,
+ *   then move to `triggered` and are enqueued as market swaps
+ * - all state lives in the orders table, so a restart simply resumes polling
+ */
+
+export type ParkedOrder = {
+  id: string;
+  user_id: string | null;
+  type: string;
+  token_in: string;
+  token_out: string;
+  amount_in: string;
+  slippage: number | string | null;
+  limit_price: string | null;
+  trigger_price: string | null;
+  max_priority_fee_lamports?: string | null;
+  status: string;
+};
+
+async function quoteOrder(order: ParkedOrder, conn: Connection) {
+  const amountInBn = new BN(order.amount_in);
+  const params = { conn, amountInBn, tokenIn: order.token_in, tokenOut: order.token_out };
+  const pools = await getPoolRegistry();
+  const direct = directPools(pools, order.token_in, order.token_out);
+
+  let quote: { dex: string; outAmountBn: BN };
+  if (direct.length > 0 || envUseMock()) {
+    quote = await getBestQuote({ ...params, pools: direct });
+  } else {
+    // no direct pool: price the pair through its best multi-hop path
+    const route = await getBestMultiHopQuote({ ...params, pools });
+    if (!route) throw new Error(`unsupported pair: no registered pool or path for ${order.token_in} -> ${order.token_out}`);
+    quote = { dex: 'multi_hop', outAmountBn: route.outAmountBn };
+  }
+  return { amountInBn, quote, quotedPrice: priceFromAmounts(quote.outAmountBn, amountInBn) };
+}
+
+/**
+ * Re-quote a single waiting limit order and enqueue it if the limit is crossed.
+ * Returns true when the order was handed to the worker.
+ */
+export async function checkLimitOrder(order: ParkedOrder, deps: { conn: Connection; queue: Queue }) {
+  if (!order.limit_price) {
+    console.warn('[triggerService] limit order without limit_price; skipping', { orderId: order.id });
+    return false;
+  }
+  const { amountInBn, quote, quotedPrice } = await quoteOrder(order, deps.conn);
+  console.debug('[triggerService] limit check', { orderId: order.id, limitPrice: order.limit_price, quotedPrice, dex: quote.dex });
+
+  if (!limitPriceReached(quote.outAmountBn, amountInBn, order.limit_price)) return false;
+
+  // claim the order; another trigger service instance may have beaten us to it
+  const claimed = await transitionOrderStatus(order.id, 'waiting', 'pending');
+  if (!claimed) {
+    console.info('[triggerService] limit order already claimed', { orderId: order.id });
+    return false;
+  }
+
+  console.info('[triggerService] limit price reached; enqueueing', { orderId: order.id, limitPrice: order.limit_price, quotedPrice, dex: quote.dex });
+  await publishOrderUpdate(order.id, {
+    orderId: order.id,
+    status: 'pending',
+    timestamp: new Date().toISOString(),
+    meta: { message: 'limit price reached', limitPrice: order.limit_price, quotedPrice, quotedOut: quote.outAmountBn.toString(), dex: quote.dex }
+  });
+  await enqueueOrderExecution(deps.queue, {
+    orderId: order.id,
+    token_in: order.token_in,
+    token_out: order.token_out,
+    amount_in: order.amount_in,
+    slippage: Number(order.slippage ?? 1.0),
+    limit_price: order.limit_price,
+    max_priority_fee_lamports: order.max_priority_fee_lamports != null ? Number(order.max_priority_fee_lamports) : null
+  });
+  return true;
+}
+
+/**
+ * Re-quote an armed stop-loss / take-profit order and fire a market swap if its trigger is crossed.
+ * Returns true when the order was handed to the worker.
+ */
+export async function checkTriggerOrder(order: ParkedOrder, deps: { conn: Connection; queue: Queue }) {
+  if (!isTriggerOrderType(order.type) || !order.trigger_price) {
+    console.warn('[triggerService] armed order without a valid trigger; skipping', { orderId: order.id, type: order.type });
+    return false;
+  }
+  const { amountInBn, quote, quotedPrice } = await quoteOrder(order, deps.conn);
+  console.debug('[triggerService] trigger check', { orderId: order.id, type: order.type, triggerPrice: order.trigger_price, quotedPrice, dex: quote.dex });
+
+  const reason = evaluateTrigger(order.type, quote.outAmountBn, amountInBn, order.trigger_price);
+  if (!reason) return false;
+
+  const claimed = await markOrderTriggered(order.id, quotedPrice);
+  if (!claimed) {
+    console.info('[triggerService] trigger order already fired', { orderId: order.id });
+    return false;
+  }
+
+  console.info('[triggerService] trigger fired; enqueueing market swap', { orderId: order.id, type: order.type, reason, triggerPrice: order.trigger_price, quotedPrice });
+  await publishOrderUpdate(order.id, {
+    orderId: order.id,
+    status: 'triggered',
+    timestamp: new Date().toISOString(),
+    meta: { reason, type: order.type, triggerPrice: order.trigger_price, observedPrice: quotedPrice, quotedOut: quote.outAmountBn.toString(), dex: quote.dex }
+  });
+  await enqueueOrderExecution(deps.queue, {
+    orderId: order.id,
+    token_in: order.token_in,
+    token_out: order.token_out,
+    amount_in: order.amount_in,
+    slippage: Number(order.slippage ?? 1.0),
+    max_priority_fee_lamports: order.max_priority_fee_lamports != null ? Number(order.max_priority_fee_lamports) : null
+  });
+  return true;
+}
+
+/**
+ * One polling pass over every parked order. Orders are read a page of `batchSize` at a time with a
+ * keyset cursor, so a backlog of old limit orders never hides newer ones (or an armed stop loss).
+ */
+export async function runTriggerCycle(deps: { conn: Connection; queue: Queue; batchSize?: number }) {
+  const batchSize = deps.batchSize ?? 100;
+  let after: { createdAt: string; id: string } | null = null;
+  let checked = 0;
+  let fired = 0;
+  for (;;) {
+    const orders: (ParkedOrder & { cursor_ts: string })[] = await getParkedOrders(['waiting', 'armed'], batchSize, after);
+    for (const order of orders) {
+      try {
+        const handed = order.status === 'armed'
+          ? await checkTriggerOrder(order, deps)
+          : await checkLimitOrder(order, deps);
+        if (handed) fired++;
+      } catch (e) {
+        // one bad order (bad mint, quote failure) must not stall the rest
+        console.warn('[triggerService] order check failed', { orderId: order.id, error: String(e) });
+      }
+    }
+    checked += orders.length;
+    if (orders.length < batchSize) break;
+    const last = orders[orders.length - 1];
+    after = { createdAt: last.cursor_ts, id: last.id };
+  }
+  return { checked, fired };
+}
+
+/**
+ * Start polling. Cycles never overlap: a slow RPC simply delays the next pass.
+ * Returns a stop function.
+ */
+export function startTriggerService(deps: { conn: Connection; queue: Queue; intervalMs?: number; batchSize?: number }) {
+  const intervalMs = deps.intervalMs ?? Number(process.env.TRIGGER_POLL_MS ?? 5000);
+  let running = false;
+  let stopped = false;
+
+  const timer = setInterval(async () => {
+    if (running || stopped) return;
+    running = true;
+    try {
+      const res = await runTriggerCycle(deps);
+      if (res.checked > 0) console.info('[triggerService] cycle complete', res);
+    } catch (e) {
+      console.error('[triggerService] cycle failed', { error: String(e), stack: (e as any)?.stack });
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  console.info('[triggerService] started', { intervalMs });
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+}
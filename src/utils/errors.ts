@@ -0,0 +1,62 @@
+import { TransactionExpiredBlockheightExceededError } from '@solana/web3.js';
+
+/**
+ * Order failures the client should be able to tell apart. `code` is what gets published in the
+ * `failed` event and stored with the order (error_code); the message carries the details.
+ *
+ * Retryable codes go back to BullMQ for another attempt (which plans a fresh route); the rest fail
+ * the job at once because another attempt cannot succeed.
+ */
+export type OrderErrorCode =
+  | 'quote_expired'
+  | 'price_moved'
+  | 'rpc_transient'
+  | 'blockhash_expired'
+  | 'slippage_exceeded'
+  | 'insufficient_funds'
+  | 'invalid_input'
+  | 'venue_unavailable'
+  | 'simulation_failed'
+  // another attempt already recorded a transaction for this leg and owns the order's outcome
+  | 'execution_in_flight'
+  | 'unknown';
+
+const RETRYABLE_CODES: OrderErrorCode[] = ['rpc_transient', 'blockhash_expired', 'venue_unavailable', 'unknown'];
+
+export class OrderError extends Error {
+  readonly code: OrderErrorCode;
+
+  constructor(code: OrderErrorCode, message: string) {
+    super(message);
+    this.name = 'OrderError';
+    this.code = code;
+  }
+
+  get retryable() {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+}
+
+// first match wins, so the terminal causes are checked before the generic network patterns
+const PATTERNS: [OrderErrorCode, RegExp][] = [
+  ['blockhash_expired', /block ?height exceeded|blockhash not found|expired before confirming/i],
+  ['slippage_exceeded', /slippage|below required minimum/i],
+  // 0x1 is the SPL token program's InsufficientFunds
+  ['insufficient_funds', /insufficient (funds|lamports|balance)|custom program error: 0x1\b|attempt to debit an account but found no record of a prior credit/i],
+  ['invalid_input', /invalid public key|non-base58|invalid (mint|account|param)|unsupported pair|poolId is required|must be (a |an )?(positive|integer)/i],
+  ['venue_unavailable', /not available|no execute function|pool (not found|account not found)|service unavailable|\b503\b/i],
+  ['rpc_transient', /\b(429|502|504)\b|too many requests|fetch failed|socket hang up|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|timed? ?out|node is behind|rate limit/i]
+];
+
+/** Map anything thrown while processing an order onto the taxonomy; unrecognised errors are retryable */
+export function classifyError(err: unknown): OrderError {
+  if (err instanceof OrderError) return err;
+  const message = String((err as any)?.message ?? err);
+  if (err instanceof TransactionExpiredBlockheightExceededError) return new OrderError('blockhash_expired', message);
+  const logs: string[] = Array.isArray((err as any)?.logs) ? (err as any).logs : [];
+  const text = [message, ...logs].join('\n');
+  for (const [code, re] of PATTERNS) {
+    if (re.test(text)) return new OrderError(code, message);
+  }
+  return new OrderError('unknown', message);
+}
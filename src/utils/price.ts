@@ -0,0 +1,50 @@
+import BN from 'bn.js';
+
+// fixed-point precision used when comparing base-unit prices (out per unit in)
+export const PRICE_DECIMALS = 18;
+
+/**
+ * Parse a non-negative decimal string (e.g. "0.995") into a BN scaled by 10^decimals.
+ * Digits beyond `decimals` are truncated. Throws on malformed input.
+ */
+export function parseDecimalToScaled(value: string | number, decimals = PRICE_DECIMALS): BN {
+  const str = String(value).trim();
+  if (!/^\d+(\.\d+)?$/.test(str)) {
+    throw new Error(`invalid decimal value: ${str}`);
+  }
+  const [whole, frac = ''] = str.split('.');
+  const fracPadded = (frac + '0'.repeat(decimals)).slice(0, decimals);
+  return new BN(whole + fracPadded);
+}
+
+/**
+ * Format a BN scaled by 10^decimals back into a decimal string (trailing zeros trimmed).
+ */
+export function formatScaled(scaled: BN, decimals = PRICE_DECIMALS): string {
+  const negative = scaled.isNeg();
+  const digits = scaled.abs().toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const frac = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${whole}${frac ? '.' + frac : ''}`;
+}
+
+/**
+ * Price as amountOut / amountIn in base units, returned as an exact decimal string
+ * truncated to `decimals` places.
+ */
+export function priceFromAmounts(amountOutBn: BN, amountInBn: BN, decimals = PRICE_DECIMALS): string {
+  if (amountInBn.isZero()) throw new Error('amountIn must be non-zero to compute a price');
+  const scaled = amountOutBn.mul(new BN(10).pow(new BN(decimals))).div(amountInBn);
+  return formatScaled(scaled, decimals);
+}
+
+/**
+ * Compare the price implied by (amountOut / amountIn) against a decimal price without
+ * floating point. Returns -1, 0 or 1 like a comparator.
+ */
+export function comparePrice(amountOutBn: BN, amountInBn: BN, price: string | number): number {
+  const priceScaled = parseDecimalToScaled(price);
+  const lhs = amountOutBn.mul(new BN(10).pow(new BN(PRICE_DECIMALS)));
+  const rhs = priceScaled.mul(amountInBn);
+  return lhs.cmp(rhs);
+}
@@ -0,0 +1,11 @@
+import dotenv from 'dotenv';
+dotenv.config();
+import {Redis} from 'ioredis';
+import { startWebhookWorker } from './webhooks/webhooks.js';
+
+const redisUrl = process.env.REDIS_URL!;
+const connection = new Redis(redisUrl, { maxRetriesPerRequest: null });
+
+console.info(`[webhook-worker] starting`, { redisUrl: redisUrl ? 'provided' : 'missing' });
+
+startWebhookWorker(connection);
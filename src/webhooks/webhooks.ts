@@ -0,0 +1,172 @@
+import * as crypto from 'crypto';
+import { BlockList, isIP } from 'net';
+import { lookup } from 'dns/promises';
+import { Queue, Worker, Job } from 'bullmq';
+import { Redis } from 'ioredis';
+import { insertWebhookDelivery, getWebhookDelivery, recordWebhookAttempt, resetWebhookDelivery, WebhookDelivery } from '../config/db.js';
+
+/**
+ * Signed webhook callbacks. Each event published for an order with a `callback_url` is logged in
+ * `webhook_deliveries` and queued on its own BullMQ queue; the webhook worker POSTs it with
+ *
+ *   X-Webhook-Id         the event id, `<orderId>:<seq>` (stable across retries, for deduplication)
+ *   X-Webhook-Timestamp  unix seconds at send time
+ *   X-Webhook-Signature  `v1=<hex HMAC-SHA256 of "<timestamp>.<body>" with WEBHOOK_SECRET>`
+ *
+ * Failed deliveries are retried with exponential backoff; after the last attempt the delivery is
+ * `dead` until an admin redelivers it.
+ */
+
+export const WEBHOOK_QUEUE_NAME = 'webhooks';
+export const WEBHOOK_SIGNATURE_VERSION = 'v1';
+
+export type WebhookJobData = { deliveryId: string };
+
+export const WEBHOOK_JOB_OPTIONS = {
+  attempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS ?? 8),
+  backoff: { type: 'exponential', delay: 5000 },
+  removeOnComplete: true,
+  removeOnFail: 1000,
+};
+
+const WEBHOOK_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS ?? 10_000);
+
+/** Webhooks are only accepted and sent while WEBHOOK_SECRET is set */
+export function webhooksEnabled() {
+  return !!process.env.WEBHOOK_SECRET;
+}
+
+// targets a caller must not reach through the server: loopback, private, link-local (cloud
+// metadata), CGNAT, unique-local, multicast and unspecified addresses
+const blockedAddresses = new BlockList();
+for (const [net, prefix] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 3]] as const) {
+  blockedAddresses.addSubnet(net, prefix, 'ipv4');
+}
+for (const [net, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  blockedAddresses.addSubnet(net, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string) {
+  const family = isIP(address);
+  if (family === 0) return false;
+  const mapped = family === 6 ? /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address) : null;
+  if (mapped) return !blockedAddresses.check(mapped[1], 'ipv4');
+  return !blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/** Hosts in WEBHOOK_ALLOWED_HOSTS (comma separated) skip the address check, e.g. an internal receiver */
+function allowedHosts() {
+  return (process.env.WEBHOOK_ALLOWED_HOSTS ?? '').split(',').map(h => h.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Null if the callback URL may be called, else the reason it may not: every address its host
+ * resolves to must be public. Checked when the URL is accepted and again before each send, since
+ * the host's DNS can change in between.
+ */
+export async function callbackUrlError(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'is not a valid URL';
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return 'must be an http(s) URL';
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (allowedHosts().includes(host)) return null;
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true, verbatim: true })).map(a => a.address);
+  } catch {
+    return 'host does not resolve';
+  }
+  if (!addresses.length || !addresses.every(isPublicAddress)) return 'must resolve to a public address';
+  return null;
+}
+
+export function signWebhook(secret: string, timestamp: number, body: string) {
+  return `${WEBHOOK_SIGNATURE_VERSION}=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export function webhookHeaders(delivery: Pick<WebhookDelivery, 'id'>, body: string, now = Date.now()) {
+  const timestamp = Math.floor(now / 1000);
+  return {
+    'content-type': 'application/json',
+    'x-webhook-id': delivery.id,
+    'x-webhook-timestamp': String(timestamp),
+    'x-webhook-signature': signWebhook(process.env.WEBHOOK_SECRET!, timestamp, body),
+  };
+}
+
+let queue: Queue | null = null;
+
+/** Lazily created so processes that never see a callback_url do not open a connection for it */
+export function webhookQueue() {
+  if (!queue) {
+    const connection = new Redis(process.env.REDIS_URL!, { maxRetriesPerRequest: null });
+    queue = new Queue(WEBHOOK_QUEUE_NAME, { connection });
+  }
+  return queue;
+}
+
+/** Log and queue the delivery of one order event; an event already logged is not queued twice */
+export async function enqueueWebhook(orderId: string, url: string, event: any) {
+  // callback URLs are rejected up front while webhooks are off; older orders that still carry one are skipped
+  if (!webhooksEnabled()) return null;
+  const id = event.seq != null ? `${orderId}:${event.seq}` : `${orderId}:${crypto.randomUUID()}`;
+  const payload = { id, orderId, event };
+  if (!(await insertWebhookDelivery({ id, order_id: orderId, url, payload }))) return id;
+  await webhookQueue().add('deliver', { deliveryId: id } satisfies WebhookJobData, { ...WEBHOOK_JOB_OPTIONS, jobId: id });
+  return id;
+}
+
+/** Queue a delivery again from its first attempt (also for `dead` and `delivered` ones); false if unknown */
+export async function redeliverWebhook(id: string) {
+  if (!(await resetWebhookDelivery(id))) return false;
+  // a fresh job id: BullMQ keeps failed jobs, and would ignore a job that reuses the id
+  await webhookQueue().add('deliver', { deliveryId: id } satisfies WebhookJobData, { ...WEBHOOK_JOB_OPTIONS, jobId: `${id}:redeliver:${Date.now()}` });
+  console.info('[webhooks] redelivery queued', { deliveryId: id });
+  return true;
+}
+
+/** POST the delivery once; throws on a blocked target, a network error, a timeout or a non-2xx answer */
+export async function sendWebhook(delivery: Pick<WebhookDelivery, 'id' | 'url' | 'payload'>) {
+  const blocked = await callbackUrlError(delivery.url);
+  if (blocked) throw new Error(`webhook url ${blocked}`);
+  const body = JSON.stringify(delivery.payload);
+  const res = await fetch(delivery.url, {
+    method: 'POST',
+    headers: webhookHeaders(delivery, body),
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!res.ok) throw Object.assign(new Error(`webhook answered ${res.status}`), { statusCode: res.status });
+  return res.status;
+}
+
+/** One attempt of a queued delivery; the last failed attempt moves the delivery to `dead` */
+export async function processWebhookJob(job: Job<WebhookJobData>) {
+  const delivery = await getWebhookDelivery(job.data.deliveryId);
+  if (!delivery || delivery.status !== 'pending') return { skipped: true };
+
+  try {
+    const statusCode = await sendWebhook(delivery);
+    await recordWebhookAttempt(delivery.id, 'delivered', { statusCode });
+    console.info('[webhooks] delivered', { deliveryId: delivery.id, statusCode });
+    return { delivered: true };
+  } catch (err: any) {
+    const last = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+    await recordWebhookAttempt(delivery.id, last ? 'dead' : 'pending', { statusCode: err?.statusCode ?? null, error: String(err?.message ?? err) });
+    console.warn('[webhooks] delivery failed', { deliveryId: delivery.id, attempt: job.attemptsMade + 1, dead: last, error: String(err?.message ?? err) });
+    throw err;
+  }
+}
+
+export function startWebhookWorker(connection: Redis) {
+  const worker = new Worker(WEBHOOK_QUEUE_NAME, processWebhookJob, { connection, concurrency: 20 });
+  worker.on('error', (err) => {
+    console.error('[webhooks] worker error', { error: String(err) });
+  });
+  return worker;
+}
@@ -1,5 +1,6 @@
 import {Redis} from 'ioredis';
-import WebSocket from 'ws';
+import { getOrderNotifyInfo, appendOrderEvent, getOrderEvents } from '../config/db.js';
+import { enqueueWebhook } from '../webhooks/webhooks.js';
 
 const redisUrl = process.env.REDIS_URL!;
 export const pub = new Redis(redisUrl);
@@ -7,8 +8,25 @@ export const sub = new Redis(redisUrl);
 
 console.info('[wsManager] Redis pub/sub clients created', { redisUrl: redisUrl ? 'provided' : 'missing' });
 
+/**
+ * Anything events can be relayed to: a WebSocket, or an SSE stream adapted to the same shape
+ * (see src/api/sse.ts), so both share one Redis subscription per order / user.
+ */
+export type EventSink = { readyState: number; OPEN: number; send(message: string): void };
+
 // in-memory map orderId -> Set<ws>
-const subscribers = new Map<string, Set<WebSocket>>();
+const subscribers = new Map<string, Set<EventSink>>();
+// in-memory map userId -> Set<ws> for sockets following every order of a user
+const userSubscribers = new Map<string, Set<EventSink>>();
+
+// orderId -> (ws -> held messages) for sockets still receiving their replay; live events wait behind it
+const replaying = new Map<string, Map<EventSink, string[]>>();
+const REPLAY_PAGE = 500;
+
+// orderId -> owner and webhook URL; both are fixed when the order is created, so entries never go stale
+type NotifyInfo = { userId: string | null; callbackUrl: string | null };
+const NOTIFY_CACHE_MAX = 10_000;
+const notifyInfo = new Map<string, NotifyInfo>();
 
 // Subscribe to Redis channel and log subscribe/unsubscribe events
 sub.on('subscribe', (channel, count) => {
@@ -24,7 +42,57 @@ pub.on('error', (err) => {
   console.error('[wsManager:redis] publisher error', { error: String(err), stack: (err as any)?.stack });
 });
 
-export function subscribeSocket(orderId: string, ws: WebSocket) {
+/**
+ * Follow one order. The socket first receives the order's logged events after `lastSeq` (all of them
+ * by default), then live events; live events that arrive during the replay are held back and sent
+ * after it, minus any the replay already covered.
+ */
+export async function subscribeSocket(orderId: string, ws: EventSink, opts: { lastSeq?: number } = {}) {
+  let held = replaying.get(orderId);
+  if (!held) {
+    held = new Map();
+    replaying.set(orderId, held);
+  }
+  held.set(ws, []);
+  addOrderSocket(orderId, ws);
+
+  let lastSent = opts.lastSeq ?? 0;
+  try {
+    lastSent = await replayOrderEvents(orderId, ws, lastSent);
+  } finally {
+    const buffered = held.get(ws) ?? [];
+    held.delete(ws);
+    if (held.size === 0 && replaying.get(orderId) === held) replaying.delete(orderId);
+    for (const message of buffered) {
+      const seq = JSON.parse(message).seq;
+      if (seq == null || seq > lastSent) send(ws, message, { orderId });
+    }
+  }
+}
+
+/**
+ * Send the order's logged events after `afterSeq` to one socket, each marked `replay: true`.
+ * Returns the last seq sent (`afterSeq` when there was nothing to send or the log could not be read).
+ */
+export async function replayOrderEvents(orderId: string, ws: EventSink, afterSeq = 0) {
+  let lastSent = afterSeq;
+  try {
+    for (;;) {
+      const events = await getOrderEvents(orderId, lastSent, REPLAY_PAGE);
+      for (const e of events) {
+        send(ws, JSON.stringify({ ...e.payload, seq: e.seq, replay: true }), { orderId });
+        lastSent = e.seq;
+      }
+      if (events.length < REPLAY_PAGE) break;
+    }
+    if (lastSent > afterSeq) console.info('[wsManager] replayed order events', { orderId, fromSeq: afterSeq + 1, toSeq: lastSent });
+  } catch (e) {
+    console.warn('[wsManager] order event replay failed', { orderId, afterSeq, error: String(e) });
+  }
+  return lastSent;
+}
+
+function addOrderSocket(orderId: string, ws: EventSink) {
   let set = subscribers.get(orderId);
   if (!set) {
     set = new Set();
@@ -37,13 +105,14 @@ export function subscribeSocket(orderId: string, ws: WebSocket) {
   console.info('[wsManager] socket subscribed', { orderId, currentSubscribers: set.size });
 }
 
-export function unsubscribeSocket(orderId: string, ws: WebSocket) {
+export function unsubscribeSocket(orderId: string, ws: EventSink) {
   const set = subscribers.get(orderId);
   if (!set) {
     console.warn('[wsManager] unsubscribe called for unknown orderId', { orderId });
     return;
   }
   set.delete(ws);
+  replaying.get(orderId)?.delete(ws);
   console.info('[wsManager] socket unsubscribed', { orderId, remainingSubscribers: set.size });
   if (set.size === 0) {
     subscribers.delete(orderId);
@@ -53,8 +122,61 @@ export function unsubscribeSocket(orderId: string, ws: WebSocket) {
   }
 }
 
+/**
+ * Follow every order of a user on one socket, including orders created after it subscribed:
+ * publishOrderUpdate copies each event to the owner's `user:<userId>` channel.
+ */
+export function subscribeUserSocket(userId: string, ws: EventSink) {
+  let set = userSubscribers.get(userId);
+  if (!set) {
+    set = new Set();
+    userSubscribers.set(userId, set);
+    sub.subscribe(`user:${userId}`)
+      .then(() => console.info('[wsManager] subscribed Redis channel for user', { userId }))
+      .catch((e) => console.error('[wsManager] Redis subscribe failed', { userId, error: String(e) }));
+  }
+  set.add(ws);
+  console.info('[wsManager] socket subscribed to user feed', { userId, currentSubscribers: set.size });
+}
+
+export function unsubscribeUserSocket(userId: string, ws: EventSink) {
+  const set = userSubscribers.get(userId);
+  if (!set) return;
+  set.delete(ws);
+  console.info('[wsManager] socket unsubscribed from user feed', { userId, remainingSubscribers: set.size });
+  if (set.size === 0) {
+    userSubscribers.delete(userId);
+    sub.unsubscribe(`user:${userId}`)
+      .then(() => console.info('[wsManager] Redis unsubscribed channel for user', { userId }))
+      .catch((e) => console.error('[wsManager] Redis unsubscribe failed', { userId, error: String(e) }));
+  }
+}
+
+async function orderNotifyInfo(orderId: string): Promise<NotifyInfo> {
+  const cached = notifyInfo.get(orderId);
+  if (cached) return cached;
+  const row = await getOrderNotifyInfo(orderId);
+  const info = { userId: row?.user_id ?? null, callbackUrl: row?.callback_url ?? null };
+  if (notifyInfo.size >= NOTIFY_CACHE_MAX) notifyInfo.delete(notifyInfo.keys().next().value!);
+  notifyInfo.set(orderId, info);
+  return info;
+}
+
+/**
+ * Log the event (which numbers it with the order's next `seq`), publish it on the order's channel
+ * and the owner's user channel, and queue its webhook when the order has a callback_url. If the log
+ * cannot be written the event is still published, without a seq, so live subscribers do not miss it.
+ */
 export async function publishOrderUpdate(orderId: string, payload: any) {
   const channel = `order:${orderId}`;
+  let seq: number | null = null;
+  try {
+    seq = await appendOrderEvent(orderId, payload);
+  } catch (e) {
+    console.error('[wsManager] order event log append failed', { orderId, status: payload?.status, error: String(e) });
+  }
+  if (seq != null) payload = { ...payload, seq };
+
   try {
     const message = JSON.stringify(payload);
     // keep a small debug log and publish
@@ -65,11 +187,53 @@ export async function publishOrderUpdate(orderId: string, payload: any) {
     console.error('[wsManager] publishOrderUpdate failed', { orderId, error: String(e), stack: (e as any)?.stack });
     throw e;
   }
+
+  // the order channel above has the event already, so failures past this point are only logged
+  let info: NotifyInfo;
+  try {
+    info = await orderNotifyInfo(orderId);
+  } catch (e) {
+    console.warn('[wsManager] order notify lookup failed', { orderId, error: String(e) });
+    return;
+  }
+  try {
+    if (info.userId) await pub.publish(`user:${info.userId}`, JSON.stringify({ orderId, ...payload }));
+  } catch (e) {
+    console.warn('[wsManager] user feed publish failed', { orderId, error: String(e) });
+  }
+  try {
+    if (info.callbackUrl) await enqueueWebhook(orderId, info.callbackUrl, payload);
+  } catch (e) {
+    console.error('[wsManager] webhook enqueue failed', { orderId, seq, error: String(e) });
+  }
+}
+
+function send(ws: EventSink, message: string, ctx: Record<string, string>) {
+  try {
+    if (ws.readyState === ws.OPEN) ws.send(message);
+  } catch (e) {
+    console.warn('[wsManager] ws send failed', { ...ctx, error: String(e) });
+  }
+}
+
+/** Send to every socket in the set, holding the message for sockets whose replay is still running */
+function relay(set: Set<EventSink>, message: string, ctx: Record<string, string>, held?: Map<EventSink, string[]>) {
+  for (const ws of Array.from(set)) {
+    const queue = held?.get(ws);
+    if (queue) queue.push(message);
+    else send(ws, message, ctx);
+  }
 }
 
 // Relay messages from Redis to websocket subscribers
 sub.on('message', (channel, message) => {
   try {
+    if (channel.startsWith('user:')) {
+      const userId = channel.slice('user:'.length);
+      const set = userSubscribers.get(userId);
+      if (set) relay(set, message, { userId });
+      return;
+    }
     if (!channel.startsWith('order:')) return;
     const id = channel.split(':')[1];
     const set = subscribers.get(id);
@@ -78,13 +242,7 @@ sub.on('message', (channel, message) => {
       return;
     }
     console.info('[wsManager] relaying message to local subscribers', { orderId: id, subscribers: set.size });
-    for (const ws of Array.from(set)) {
-      try {
-        if (ws.readyState === ws.OPEN) ws.send(message);
-      } catch (e) {
-        console.warn('[wsManager] ws send failed', { orderId: id, error: String(e) });
-      }
-    }
+    relay(set, message, { orderId: id }, replaying.get(id));
   } catch (e) {
     console.error('[wsManager] error in message handler', { error: String(e), stack: (e as any)?.stack });
   }
@@ -1,5 +1,7 @@
 import Fastify from 'fastify';
 import './worker.js';  // <-- your existing worker code (no changes needed)
+import './trigger-service.js';  // polls waiting limit orders alongside the worker
+import './webhook-worker.js';  // delivers webhook callbacks
 
 const app = Fastify();
 
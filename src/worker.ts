@@ -1,21 +1,185 @@
 import dotenv from 'dotenv';
 dotenv.config();
 import {Redis} from 'ioredis';
-import { Worker } from 'bullmq';
-import { Connection, Keypair } from '@solana/web3.js';
+import { Worker, Job, UnrecoverableError } from 'bullmq';
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
-import { getBestQuote, executeSwap } from './router/dexRouter.js';
+import { planRoute, executeRoutePlan, describeRoutePlan } from './router/routePlanner.js';
 import { publishOrderUpdate } from './websocket/wsManager.js';
-import { updateOrderStatus, setRoutingInfo } from './config/db.js';
+import { updateOrderStatus, setRoutingInfo, claimOrderForSubmission, markOrderFinalized, getOrderById, OrderExecution } from './config/db.js';
+import { ORDER_QUEUE_NAME, OrderJobData } from './queue/orderQueue.js';
+import { priceFromAmounts } from './utils/price.js';
+import { limitPriceReached } from './triggers/triggerRules.js';
+import { recordTwapSliceResult } from './orders/twap.js';
+import { LockedQuote, assertQuoteNotExpired, assertQuoteHonored } from './quotes/firmQuotes.js';
+import { getPoolRegistry } from './router/poolRegistry.js';
+import { envUseMock } from './router/dexRouter.js';
+import { classifyError, OrderError } from './utils/errors.js';
+import { isCancelRequested } from './orders/cancel.js';
+import { resolvePriorExecutions } from './execution/executionGuard.js';
+import { describeSimulation } from './execution/simulation.js';
+import { waitForFinalized, isTransactionSignature } from './execution/txSender.js';
+import { readSwapFill, realizedExecution } from './execution/fills.js';
 
 const redisUrl = process.env.REDIS_URL!;
 const connection = new Redis(redisUrl, { maxRetriesPerRequest: null });
 
 console.info(`[worker] starting worker (orders)`, { redisUrl: redisUrl ? 'provided' : 'missing' });
 
-const worker = new Worker('orders', async (job) => {
-  const data = job.data as any;
-  const { orderId, token_in, token_out, amount_in, slippage } = data;
+/** Cancellation checkpoint between stages; the API has already marked the order cancelled */
+async function cancelRequested(orderId: string, stage: string) {
+  if (!(await isCancelRequested(connection, orderId))) return false;
+  console.info(`[worker:${orderId}] cancellation requested; stopping`, { stage });
+  return true;
+}
+
+/**
+ * A firm quote locks the order to the pools it was quoted on: its pool, or each hop's pool for a
+ * multi-hop quote, so neither another path nor a split can be chosen instead.
+ */
+async function quotedPools(quote: LockedQuote) {
+  if (envUseMock()) return undefined;
+  // jobs queued before quotes recorded their pools carry only the direct pool
+  const locked = quote.pools ?? (quote.poolId ? [{ venue: quote.venue, poolId: quote.poolId }] : []);
+  if (!locked.length) throw new OrderError('quote_expired', `quote ${quote.quoteId} does not record its pools; request a new quote`);
+  return (await getPoolRegistry()).filter(p => locked.some(l => l.venue === p.venue && l.poolId === p.poolId));
+}
+
+/**
+ * Follow a landed order's transactions on to `finalized` and publish a `finalized` event. The job
+ * does not wait for this; a timeout or RPC error is only logged.
+ */
+async function trackFinality(conn: Connection, orderId: string, txHash: string | null) {
+  const signatures = (txHash ?? '').split(',').filter(isTransactionSignature);
+  if (!signatures.length) return;
+  try {
+    if (!(await waitForFinalized(conn, signatures))) {
+      console.warn(`[worker:${orderId}] transactions not finalized in time`, { signatures });
+      return;
+    }
+    await markOrderFinalized(orderId);
+    await publishOrderUpdate(orderId, { orderId, status: 'finalized', timestamp: new Date().toISOString(), txHash: signatures.join(',') });
+  } catch (e) {
+    console.warn(`[worker:${orderId}] finality tracking failed`, { error: String(e) });
+  }
+}
+
+/** Legs the route stored before sending planned: `split:<i>`, `hop:<i>` or `single` */
+function plannedLegs(routing: any): string[] {
+  if (Array.isArray(routing?.split?.legs)) return routing.split.legs.map((_: unknown, i: number) => `split:${i}`);
+  if (Array.isArray(routing?.multiHop?.hops)) return routing.multiHop.hops.map((_: unknown, i: number) => `hop:${i}`);
+  return ['single'];
+}
+
+/**
+ * Finish an order whose swaps landed in an earlier attempt (their confirmation was never observed)
+ * without sending them again. Split legs and hops are sent one after another, so an attempt that
+ * stopped may have landed any number of them: the order is `confirmed` when every leg of the route
+ * it stored before sending landed, and `partially_filled` otherwise.
+ */
+async function completeFromLandedExecutions(conn: Connection, owner: PublicKey, data: OrderJobData, landed: OrderExecution[]) {
+  const { orderId, parent_id, slice_index, amount_in, token_in, token_out } = data;
+  const routing = (await getOrderById(orderId))?.routing_info ?? null;
+  const planned = plannedLegs(routing);
+  const complete = planned.every(leg => landed.some(e => e.leg === leg));
+  const finalStatus = complete ? 'confirmed' : 'partially_filled';
+  const txHash = landed.map(e => e.signature).join(',');
+
+  // a split leg or the single swap trades the order's pair; an unfinished multi-hop route's last hop
+  // holds an intermediate token, so only a finished one (first hop in, last hop out) can be reported
+  const hops = routing?.multiHop?.hops;
+  const signatureOf = (leg: string) => landed.find(e => e.leg === leg)!.signature;
+  let realized: ReturnType<typeof realizedExecution> | null = null;
+  let fillUnknown = false;
+  if (!hops || complete) {
+    const fills = hops
+      ? await Promise.all([
+        readSwapFill(conn, signatureOf('hop:0'), { owner, tokenIn: token_in, tokenOut: hops[0].tokenOut }),
+        readSwapFill(conn, signatureOf(`hop:${hops.length - 1}`), { owner, tokenIn: hops[hops.length - 1].tokenIn, tokenOut: token_out })
+      ]).then(([first, last]) => [first && last ? { amountInBn: first.amountInBn, amountOutBn: last.amountOutBn } : null])
+      : await Promise.all(landed.map(e => readSwapFill(conn, e.signature, { owner, tokenIn: token_in, tokenOut: token_out })));
+    if (fills.every(Boolean)) {
+      const amountInBn = fills.reduce((sum, f) => sum.add(f!.amountInBn), new BN(0));
+      const amountOutBn = fills.reduce((sum, f) => sum.add(f!.amountOutBn), new BN(0));
+      // the quote is known for a finished route (its stored estimate) and for a single swap (its expected_out)
+      const quotedOut = planned[0] === 'single' ? landed[0].expected_out : (complete ? routing?.estimatedOut : null);
+      const quote = quotedOut ? { amountInBn: new BN(amount_in), amountOutBn: new BN(quotedOut) } : null;
+      realized = realizedExecution(quote, amountInBn, amountOutBn);
+    } else {
+      // the expected output is not what was executed: leave the amounts unknown
+      fillUnknown = true;
+    }
+  }
+
+  console.info(`[worker:${orderId}] swap from an earlier attempt landed; not sending again`, { txHash, finalStatus, realized });
+  await publishOrderUpdate(orderId, {
+    orderId,
+    status: finalStatus,
+    txHash,
+    executedOut: realized?.amountOut ?? null,
+    ...(realized ? { executedIn: realized.amountIn, realizedPrice: realized.price, realizedSlippageBps: realized.slippageBps } : {}),
+    ...(fillUnknown ? { fillUnknown: true } : {}),
+    meta: { message: 'confirmed from an earlier attempt' }
+  });
+  await updateOrderStatus(orderId, finalStatus, {
+    attemptsDelta: 0,
+    txHash,
+    executedPrice: realized?.price ?? null,
+    executedAmountIn: realized?.amountIn ?? null,
+    executedAmountOut: realized?.amountOut ?? null,
+    realizedSlippageBps: realized?.slippageBps ?? null
+  });
+  if (parent_id) {
+    await recordTwapSliceResult(parent_id, {
+      childId: orderId,
+      sliceIndex: slice_index ?? 0,
+      filled: true,
+      amountIn: realized?.amountIn ?? (fillUnknown ? null : amount_in),
+      amountOut: realized?.amountOut ?? null,
+      txHash
+    });
+  }
+  void trackFinality(conn, orderId, txHash);
+  return { ok: true, recovered: true };
+}
+
+/**
+ * Report a failed attempt and return what to throw to BullMQ. Terminal errors become
+ * UnrecoverableError so the job fails without further attempts; retryable ones are rethrown and the
+ * next attempt re-quotes and plans a fresh route.
+ */
+async function failAttempt(job: Job, err: unknown) {
+  const { orderId, parent_id, slice_index, amount_in, quote } = job.data as OrderJobData;
+  const error = classifyError(err);
+  const attempt = (job.attemptsMade ?? 0) + 1;
+  const willRetry = error.retryable && attempt < (job.opts?.attempts ?? 1);
+
+  // a concurrent attempt (a stalled job run twice) sent this order's swap and will report its outcome
+  if (error.code === 'execution_in_flight') {
+    console.warn(`[worker:${orderId}] another attempt owns the order's transaction; stopping`, { attempt, error: error.message });
+    return new UnrecoverableError(`${error.code}: ${error.message}`);
+  }
+
+  console.error(`[worker:${orderId}] attempt failed`, { code: error.code, retryable: error.retryable, willRetry, attempt, error: error.message, stack: (err as any)?.stack });
+  await publishOrderUpdate(orderId, {
+    orderId,
+    status: 'failed',
+    error: error.code,
+    meta: { message: error.message, retryable: error.retryable, willRetry, attempt, ...(quote ? { quoteId: quote.quoteId } : {}) }
+  });
+  await updateOrderStatus(orderId, 'failed', { attemptsDelta: 1, error: error.message, errorCode: error.code });
+
+  // TWAP child that will not run again: count it as a failed slice on the parent
+  if (parent_id && !willRetry) {
+    await recordTwapSliceResult(parent_id, { childId: orderId, sliceIndex: slice_index ?? 0, filled: false, amountIn: amount_in, error: error.code })
+      .catch((e) => console.error(`[worker:${orderId}] failed to record twap slice failure`, { error: String(e) }));
+  }
+  return error.retryable ? err : new UnrecoverableError(`${error.code}: ${error.message}`);
+}
+
+const worker = new Worker(ORDER_QUEUE_NAME, async (job) => {
+  const data = job.data as OrderJobData;
+  const { orderId, token_in, token_out, amount_in, slippage, limit_price, parent_id, slice_index, quote, dry_run, max_priority_fee_lamports } = data;
 
   console.info(`[worker] job received`, {
     jobId: job.id,
@@ -28,6 +192,8 @@ const worker = new Worker('orders', async (job) => {
   });
 
   try {
+    if (await cancelRequested(orderId, 'pending')) return { ok: false, cancelled: true };
+
     // publish queued/pending
     console.info(`[worker:${orderId}] publishing pending`);
     await publishOrderUpdate(orderId, { orderId, status: 'pending', timestamp: new Date().toISOString(), meta: { message: 'queued' } });
@@ -39,75 +205,172 @@ const worker = new Worker('orders', async (job) => {
 
     const amountBn = new BN(amount_in.toString());
 
-    console.info(`[worker:${orderId}] querying DEX quotes`, { amountBn: amountBn.toString(), token_in, token_out });
-    await publishOrderUpdate(orderId, { orderId, status: 'routing', timestamp: new Date().toISOString(), meta: { message: 'querying dex quotes' }});
+    // an earlier attempt may have sent a swap and failed before seeing it confirm: never swap twice
+    const landed = await resolvePriorExecutions(conn, orderId);
+    if (landed.length) return completeFromLandedExecutions(conn, wallet.publicKey, data, landed);
+
+    if (await cancelRequested(orderId, 'routing')) return { ok: false, cancelled: true };
+
+    // every attempt quotes afresh; a retry never reuses the route of the attempt that failed
+    const requote = (job.attemptsMade ?? 0) > 0;
+    console.info(`[worker:${orderId}] querying DEX quotes`, { amountBn: amountBn.toString(), token_in, token_out, requote });
+    await publishOrderUpdate(orderId, { orderId, status: 'routing', timestamp: new Date().toISOString(), meta: { message: requote ? 're-quoting after a retryable failure' : 'querying dex quotes', attempt: (job.attemptsMade ?? 0) + 1 }});
 
-    const quote = await getBestQuote({
+    if (quote) assertQuoteNotExpired(quote);
+
+    const plan = await planRoute({
       conn,
       amountInBn: amountBn,
       tokenIn: token_in,
       tokenOut: token_out,
-      meteoraPoolAddress: process.env.POOL_ADDRESS,
-      raydiumPoolId: process.env.POOL_ID
+      pools: quote ? await quotedPools(quote) : undefined
     });
+    const chosen = plan.chosen;
+    const estimatedOut = plan.estimatedOutBn;
 
     console.info(`[worker:${orderId}] quote received`, {
-      chosenDex: quote.dex,
-      estimatedOut: quote.outAmountBn.toString(),
-      details: quote.details
+      chosenDex: chosen,
+      routeKind: plan.kind,
+      estimatedOut: estimatedOut.toString(),
+      details: plan.quote?.details
     });
 
+    // firm quote: never accept less than the min out the client was quoted
+    if (quote) assertQuoteHonored(quote, estimatedOut);
+
+    // limit orders: the price may have moved back since the trigger fired; park the order again
+    if (limit_price && !limitPriceReached(estimatedOut, amountBn, limit_price)) {
+      const quotedPrice = priceFromAmounts(estimatedOut, amountBn);
+      console.info(`[worker:${orderId}] limit price no longer met; returning to waiting`, { limit_price, quotedPrice });
+      await updateOrderStatus(orderId, 'waiting');
+      await publishOrderUpdate(orderId, { orderId, status: 'waiting', timestamp: new Date().toISOString(), meta: { message: 'limit price no longer met', limitPrice: limit_price, quotedPrice } });
+      return { ok: false, waiting: true };
+    }
+
+    if (await cancelRequested(orderId, 'building')) return { ok: false, cancelled: true };
+
     // record routing info & move to building/routing state
-    await setRoutingInfo(orderId, { chosen: quote.dex, estimatedOut: quote.outAmountBn.toString(), details: quote.details });
-    await publishOrderUpdate(orderId, { orderId, status: 'building', dex: quote.dex, meta: { quote: quote.outAmountBn.toString() }});
+    const routing = describeRoutePlan(plan);
+    await setRoutingInfo(orderId, routing);
+    await publishOrderUpdate(orderId, { orderId, status: 'building', dex: chosen, meta: { quote: estimatedOut.toString(), ...(plan.kind === 'single' ? {} : { routing }) }});
     await updateOrderStatus(orderId, 'routing');
 
-    // attempt execution
-    try {
-      console.info(`[worker:${orderId}] submitting to DEX`, { dex: quote.dex });
-      await publishOrderUpdate(orderId, { orderId, status: 'submitted', meta: { dex: quote.dex }});
-
-      const res = await executeSwap({
+    // dry run: simulate the swap transactions and stop; nothing is claimed, recorded or sent
+    if (dry_run) {
+      const sim = await executeRoutePlan(plan, {
         conn,
         wallet,
-        dex: quote.dex,
         tokenIn: token_in,
         tokenOut: token_out,
         amountInBn: amountBn,
         slippagePercent: Number(slippage ?? 1.0),
-        meteoraPoolAddress: process.env.POOL_ADDRESS,
-        raydiumPoolId: process.env.POOL_ID
+        minOutBn: quote ? new BN(quote.minOut) : undefined,
+        dryRun: true
       });
-
-      console.info(`[worker:${orderId}] execution result`, {
-        txId: res.txId,
-        executedOutBn: res.executedOutBn?.toString?.() ?? null,
-        dex: res.dex,
-        simulated: !!res.simulated
+      const simulatedOut = sim.executedOutBn?.toString?.() ?? null;
+      console.info(`[worker:${orderId}] dry run simulated`, { dex: sim.dex, simulatedOut });
+      await publishOrderUpdate(orderId, {
+        orderId,
+        status: 'simulated',
+        timestamp: new Date().toISOString(),
+        expectedOut: estimatedOut.toString(),
+        simulatedOut,
+        ...(sim.simulation ? { simulation: describeSimulation(sim.simulation) } : {}),
+        ...(sim.legs ? { legs: sim.legs } : {}),
+        ...(sim.hops ? { hops: sim.hops } : {})
       });
-
-      await publishOrderUpdate(orderId, { orderId, status: 'confirmed', txHash: res.txId, executedOut: res.executedOutBn?.toString?.() ?? null });
-      await updateOrderStatus(orderId, 'confirmed', {
+      await updateOrderStatus(orderId, 'simulated', {
         attemptsDelta: 0,
-        txHash: res.txId ?? null,
-        executedPrice: res.executedOutBn ? Number(res.executedOutBn.toString()) : null,
-        routing: { chosen: quote.dex }
+        routing: { chosen, dryRun: true, simulatedOut, ...(sim.simulation ? { simulation: describeSimulation(sim.simulation) } : {}), ...(sim.legs ? { legs: sim.legs } : {}), ...(sim.hops ? { hops: sim.hops } : {}) }
       });
+      return { ok: true, simulated: true };
+    }
 
-      console.info(`[worker:${orderId}] job complete`, { jobId: job.id });
-      return { ok: true };
-    } catch (err) {
-      // publish failure and let BullMQ decide retry (attempts configured by enqueue)
-      console.error(`[worker:${orderId}] execution failed`, { error: String(err), stack: (err as any)?.stack, attemptsMade: job.attemptsMade });
-      await publishOrderUpdate(orderId, { orderId, status: 'failed', error: String(err) });
-      await updateOrderStatus(orderId, 'failed', { attemptsDelta: 1, error: String(err) });
-      throw err;
+    // last cancellation point: claiming `submitted` fails if a cancel got there first
+    if (await cancelRequested(orderId, 'submitted') || !(await claimOrderForSubmission(orderId))) {
+      console.info(`[worker:${orderId}] order cancelled before submission`);
+      return { ok: false, cancelled: true };
     }
-  } catch (outerErr) {
-    // unexpected outer error
-    console.error(`[worker] fatal job error`, { jobId: job.id, error: String(outerErr), stack: (outerErr as any)?.stack });
-    // ensure the job fails so BullMQ can retry / move to failed
-    throw outerErr;
+
+    // attempt execution
+    console.info(`[worker:${orderId}] submitting to DEX`, { dex: chosen });
+    await publishOrderUpdate(orderId, { orderId, status: 'submitted', meta: { dex: chosen }});
+
+    const res = await executeRoutePlan(plan, {
+      conn,
+      wallet,
+      tokenIn: token_in,
+      tokenOut: token_out,
+      amountInBn: amountBn,
+      slippagePercent: Number(slippage ?? 1.0),
+      minOutBn: quote ? new BN(quote.minOut) : undefined,
+      guard: {
+        orderId,
+        onStatus: async ({ leg, signature, commitment, slot }) => {
+          await publishOrderUpdate(orderId, { orderId, status: `tx_${commitment}`, timestamp: new Date().toISOString(), txHash: signature, leg, slot });
+        }
+      },
+      maxPriorityFeeLamports: max_priority_fee_lamports,
+      onHopConfirmed: async (hop) => {
+        await publishOrderUpdate(orderId, { orderId, status: 'hop_confirmed', timestamp: new Date().toISOString(), hop });
+      }
+    });
+
+    console.info(`[worker:${orderId}] execution result`, {
+      txId: res.txId,
+      executedOutBn: res.executedOutBn?.toString?.() ?? null,
+      dex: res.dex,
+      simulated: !!res.simulated,
+      partial: !!res.partial,
+      priorityFeeLamports: res.priorityFeeLamports ?? null
+    });
+
+    // a split / multi-hop whose later leg failed has still swapped the earlier legs; never retry it
+    const finalStatus = res.partial ? 'partially_filled' : 'confirmed';
+    // exact amounts, price and slippage versus the quote the route was planned on
+    const realized = res.executedOutBn && res.executedInBn
+      ? realizedExecution({ amountInBn: amountBn, amountOutBn: estimatedOut }, res.executedInBn, res.executedOutBn)
+      : null;
+    await publishOrderUpdate(orderId, {
+      orderId,
+      status: finalStatus,
+      txHash: res.txId,
+      executedOut: res.executedOutBn?.toString?.() ?? null,
+      ...(realized ? { executedIn: realized.amountIn, expectedOut: estimatedOut.toString(), realizedPrice: realized.price, realizedSlippageBps: realized.slippageBps } : {}),
+      ...(res.fillUnknown ? { fillUnknown: true } : {}),
+      priorityFeeLamports: res.priorityFeeLamports ?? null,
+      ...(res.legs ? { legs: res.legs } : {}),
+      ...(res.hops ? { hops: res.hops } : {})
+    });
+    await updateOrderStatus(orderId, finalStatus, {
+      attemptsDelta: 0,
+      txHash: res.txId ?? null,
+      executedPrice: realized?.price ?? null,
+      executedAmountIn: realized?.amountIn ?? null,
+      executedAmountOut: realized?.amountOut ?? null,
+      realizedSlippageBps: realized?.slippageBps ?? null,
+      priorityFeeLamports: res.priorityFeeLamports ?? null,
+      routing: { chosen, ...(res.legs ? { legs: res.legs } : {}), ...(res.hops ? { hops: res.hops } : {}), ...(res.fillUnknown ? { fillUnknown: true } : {}) }
+    });
+
+    // TWAP child: roll the fill up into the parent's progress
+    if (parent_id) {
+      await recordTwapSliceResult(parent_id, {
+        childId: orderId,
+        sliceIndex: slice_index ?? 0,
+        filled: true,
+        // an unread fill adds nothing to the parent's totals rather than the quote
+        amountIn: realized?.amountIn ?? (res.fillUnknown ? null : amount_in),
+        amountOut: res.executedOutBn?.toString?.() ?? null,
+        txHash: res.txId ?? null
+      });
+    }
+
+    void trackFinality(conn, orderId, res.txId);
+    console.info(`[worker:${orderId}] job complete`, { jobId: job.id });
+    return { ok: true };
+  } catch (err) {
+    throw await failAttempt(job, err);
   }
 }, { connection, concurrency: 10 });
 
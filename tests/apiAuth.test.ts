@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import RedisMock from 'ioredis-mock';
+
+const byHash = new Map<string, any>();
+vi.mock('../src/config/db.js', () => ({
+  insertApiKey: async (k: any) => {
+    const row = { ...k, created_at: new Date(), revoked_at: null };
+    byHash.set(k.key_hash, row);
+    return row;
+  },
+  getApiKeyByHash: async (hash: string) => {
+    const row = byHash.get(hash);
+    return row && !row.revoked_at ? row : null;
+  }
+}));
+
+import { createApiKey, authenticateApiKey, apiKeyFromHeaders, hashApiKey } from '../src/auth/apiKeys.js';
+import { takeRateLimitToken } from '../src/auth/rateLimit.js';
+
+describe('api keys', () => {
+  it('stores only the hash and authenticates the key as its user', async () => {
+    const { key, apiKey } = await createApiKey('user-1', 'bot');
+    expect(key).toMatch(/^oe_[A-Za-z0-9_-]{43}$/);
+    expect(apiKey.key_hash).toBe(hashApiKey(key));
+    expect(JSON.stringify(apiKey)).not.toContain(key);
+    expect(await authenticateApiKey(key)).toEqual({ keyId: apiKey.id, userId: 'user-1', callbackUrl: null });
+
+    apiKey.revoked_at = new Date();
+    expect(await authenticateApiKey(key)).toBeNull();
+    expect(await authenticateApiKey('oe_short')).toBeNull();
+  });
+
+  it('reads the key from x-api-key or a bearer token', () => {
+    expect(apiKeyFromHeaders({ 'x-api-key': 'k1' })).toBe('k1');
+    expect(apiKeyFromHeaders({ authorization: 'Bearer k2' })).toBe('k2');
+    expect(apiKeyFromHeaders({ authorization: 'Basic abc' })).toBeNull();
+  });
+});
+
+describe('rate limit', () => {
+  it('allows a burst, then refills at the configured rate', async () => {
+    const redis = new (RedisMock as any)();
+    const cfg = { burst: 2, perMinute: 60 };
+    const t0 = 1_000_000;
+    expect(await takeRateLimitToken(redis, 'k', cfg, t0)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await takeRateLimitToken(redis, 'k', cfg, t0)).toMatchObject({ allowed: true, remaining: 0 });
+    const limited = await takeRateLimitToken(redis, 'k', cfg, t0);
+    expect(limited).toMatchObject({ allowed: false, limit: 2 });
+    expect(limited.retryAfterMs).toBe(1000);
+
+    expect(await takeRateLimitToken(redis, 'k', cfg, t0 + 1000)).toMatchObject({ allowed: true });
+    expect(await takeRateLimitToken(redis, 'other', cfg, t0)).toMatchObject({ allowed: true });
+  });
+});
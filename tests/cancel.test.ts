@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import RedisMock from 'ioredis-mock';
+
+vi.mock('../src/websocket/wsManager.js', () => ({ publishOrderUpdate: async () => {} }));
+
+vi.mock('ioredis', () => ({ default: RedisMock, Redis: RedisMock }));
+
+// in-memory orders table with the same compare-and-set semantics as db.ts
+const orders = new Map<string, any>();
+const executions = new Map<string, any[]>();
+const jobIds = new Map<string, string>();
+vi.mock('../src/config/db.js', () => ({
+  insertOrder: async () => ({ rows: [] }),
+  updateOrderStatus: async (id: string, status: string) => {
+    const o = orders.get(id);
+    if (o && o.status !== 'cancelled') o.status = status;
+    return { rows: [] };
+  },
+  // counts each slice on its parent once, like db.ts
+  applyTwapSliceResult: async (parentId: string, r: any) => {
+    const p = orders.get(parentId);
+    const child = orders.get(r.childId);
+    if (!p || child.counted) return p ? { ...p, counted: false } : null;
+    child.counted = true;
+    p.slices_completed += r.filled ? 1 : 0;
+    p.slices_failed += r.filled ? 0 : 1;
+    p.filled_amount_in = String(Number(p.filled_amount_in) + (r.filled ? Number(r.amountIn) : 0));
+    p.filled_amount_out = String(Number(p.filled_amount_out) + (r.filled ? Number(r.amountOut) : 0));
+    return { ...p, counted: true };
+  },
+  getOrderById: async (id: string) => (orders.has(id) ? { ...orders.get(id) } : null),
+  getChildOrders: async (parentId: string) => [...orders.values()].filter(o => o.parent_id === parentId),
+  getOrderExecutions: async (id: string) => executions.get(id) ?? [],
+  getOrderJobId: async (id: string) => jobIds.get(id) ?? null,
+  markOrderCancelled: async (id: string, from: string[]) => {
+    const o = orders.get(id);
+    if (!o || !from.includes(o.status)) return false;
+    o.status = 'cancelled';
+    return true;
+  }
+}));
+
+import { cancelOrder, isCancelRequested } from '../src/orders/cancel.js';
+
+function twapParent() {
+  return { id: 'p', type: 'twap', status: 'running', twap_slices: 3, slices_completed: 0, slices_failed: 0, filled_amount_in: '0', filled_amount_out: '0' };
+}
+
+function fakeQueue(states: Record<string, string>) {
+  const removed: string[] = [];
+  return {
+    removed,
+    getJob: async (id: string) => (states[id]
+      ? { getState: async () => states[id], remove: async () => { removed.push(id); } }
+      : undefined)
+  };
+}
+
+describe('cancelOrder', () => {
+  let redis: any;
+  beforeEach(async () => {
+    orders.clear();
+    executions.clear();
+    jobIds.clear();
+    redis = new RedisMock();
+    // ioredis-mock instances share one keyspace
+    await redis.flushall();
+  });
+
+  it('removes a queued job and marks the order cancelled', async () => {
+    orders.set('o1', { id: 'o1', type: 'market', status: 'pending' });
+    const queue = fakeQueue({ o1: 'waiting' });
+    const res = await cancelOrder({ queue: queue as any, redis }, 'o1');
+    expect(res).toEqual({ outcome: 'cancelled', status: 'cancelled' });
+    expect(orders.get('o1').status).toBe('cancelled');
+    expect(queue.removed).toEqual(['o1']);
+    expect(await isCancelRequested(redis, 'o1')).toBe(true);
+  });
+
+  it('removes the job the order was last enqueued as', async () => {
+    orders.set('o7', { id: 'o7', type: 'limit', status: 'pending' });
+    // re-triggered limit order: the first job completed, the second is queued under a fresh id
+    jobIds.set('o7', 'o7:execute:2');
+    const queue = fakeQueue({ 'o7:execute:1': 'completed', 'o7:execute:2': 'waiting' });
+    expect((await cancelOrder({ queue: queue as any, redis }, 'o7')).outcome).toBe('cancelled');
+    expect(queue.removed).toEqual(['o7:execute:2']);
+  });
+
+  it('flags a running job without removing it', async () => {
+    orders.set('o2', { id: 'o2', type: 'market', status: 'routing' });
+    const queue = fakeQueue({ o2: 'active' });
+    const res = await cancelOrder({ queue: queue as any, redis }, 'o2');
+    expect(res.outcome).toBe('cancelled');
+    expect(queue.removed).toEqual([]);
+    expect(await isCancelRequested(redis, 'o2')).toBe(true);
+  });
+
+  it('answers too_late once the order was submitted', async () => {
+    orders.set('o3', { id: 'o3', type: 'market', status: 'submitted' });
+    const res = await cancelOrder({ queue: fakeQueue({ o3: 'active' }) as any, redis }, 'o3');
+    expect(res).toEqual({ outcome: 'too_late', status: 'submitted' });
+    expect(await isCancelRequested(redis, 'o3')).toBe(false);
+  });
+
+  it('stops a failed order only while its retry is queued', async () => {
+    orders.set('o4', { id: 'o4', type: 'market', status: 'failed' });
+    orders.set('o5', { id: 'o5', type: 'market', status: 'failed' });
+    const queue = fakeQueue({ o4: 'delayed', o5: 'failed' });
+    expect((await cancelOrder({ queue: queue as any, redis }, 'o4')).outcome).toBe('cancelled');
+    expect(await cancelOrder({ queue: queue as any, redis }, 'o5')).toEqual({ outcome: 'not_cancellable', status: 'failed' });
+  });
+
+  it('keeps a failed order whose swap may still land', async () => {
+    orders.set('o6', { id: 'o6', type: 'market', status: 'failed' });
+    executions.set('o6', [{ order_id: 'o6', leg: 'single', signature: 'sig', status: 'sent' }]);
+    const res = await cancelOrder({ queue: fakeQueue({ o6: 'delayed' }) as any, redis }, 'o6');
+    expect(res).toEqual({ outcome: 'not_cancellable', status: 'failed' });
+  });
+
+  it('cancels a TWAP parent with its unsubmitted slices when nothing has filled', async () => {
+    orders.set('p', twapParent());
+    orders.set('c0', { id: 'c0', type: 'twap_slice', parent_id: 'p', status: 'failed', amount_in: '100' });
+    orders.set('c1', { id: 'c1', type: 'twap_slice', parent_id: 'p', status: 'scheduled', amount_in: '100' });
+    orders.set('c2', { id: 'c2', type: 'twap_slice', parent_id: 'p', status: 'scheduled', amount_in: '100' });
+    const queue = fakeQueue({ c0: 'failed', c1: 'delayed', c2: 'delayed' });
+    const res = await cancelOrder({ queue: queue as any, redis }, 'p');
+    expect(res).toEqual({ outcome: 'cancelled', status: 'cancelled', children: ['c1', 'c2'] });
+    expect(queue.removed).toEqual(['c1', 'c2']);
+    expect(orders.get('p').status).toBe('cancelled');
+  });
+
+  it('settles a TWAP parent on its filled slices instead of cancelling it', async () => {
+    orders.set('p', { ...twapParent(), slices_completed: 1, filled_amount_in: '100', filled_amount_out: '190' });
+    orders.set('c0', { id: 'c0', type: 'twap_slice', parent_id: 'p', status: 'confirmed', amount_in: '100', counted: true });
+    orders.set('c1', { id: 'c1', type: 'twap_slice', parent_id: 'p', status: 'scheduled', amount_in: '100' });
+    orders.set('c2', { id: 'c2', type: 'twap_slice', parent_id: 'p', status: 'scheduled', amount_in: '100' });
+    const res = await cancelOrder({ queue: fakeQueue({ c1: 'delayed', c2: 'delayed' }) as any, redis }, 'p');
+    expect(res).toEqual({
+      outcome: 'cancelled',
+      status: 'partially_filled',
+      children: ['c1', 'c2'],
+      filled: { slicesCompleted: 1, filledAmountIn: '100', filledAmountOut: '190' }
+    });
+    expect(orders.get('c0').status).toBe('confirmed');
+    expect(await isCancelRequested(redis, 'p')).toBe(false);
+  });
+
+  it('keeps a TWAP parent running while a slice is still landing, and is too late once none is left', async () => {
+    orders.set('p', twapParent());
+    orders.set('c0', { id: 'c0', type: 'twap_slice', parent_id: 'p', status: 'submitted', amount_in: '100' });
+    orders.set('c1', { id: 'c1', type: 'twap_slice', parent_id: 'p', status: 'scheduled', amount_in: '100' });
+    const queue = fakeQueue({ c1: 'delayed' });
+    const res: any = await cancelOrder({ queue: queue as any, redis }, 'p');
+    expect(res).toMatchObject({ outcome: 'cancelled', status: 'running', children: ['c1'] });
+    expect(orders.get('p').slices_failed).toBe(1);
+
+    expect(await cancelOrder({ queue: queue as any, redis }, 'p')).toEqual({ outcome: 'too_late', status: 'running' });
+  });
+
+  it('reports unknown orders', async () => {
+    expect(await cancelOrder({ queue: fakeQueue({}) as any, redis }, 'nope')).toEqual({ outcome: 'not_found' });
+  });
+});
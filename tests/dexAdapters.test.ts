@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import BN from 'bn.js';
+import { Keypair } from '@solana/web3.js';
+import bs58 from 'bs58';
+
+// config.ts needs a wallet and mints at import time
+process.env.WALLET_PRIVATE_KEY_JSON ??= JSON.stringify(Array.from(Keypair.generate().secretKey));
+process.env.USDC_DEV_MINT ??= Keypair.generate().publicKey.toBase58();
+process.env.TEST_DEV_MINT ??= Keypair.generate().publicKey.toBase58();
+
+let adapters: any;
+let dexRouter: any;
+let meteora: any;
+let raydium: any;
+beforeAll(async () => {
+  adapters = await import('../src/router/adapters/index.js');
+  dexRouter = await import('../src/router/dexRouter.js');
+  meteora = await import('../src/router/adapters/meteoraAdapter.js');
+  raydium = await import('../src/router/adapters/raydiumAdapter.js');
+});
+
+afterEach(() => {
+  delete process.env.ENABLED_DEXES;
+  delete process.env.DISABLED_DEXES;
+  delete process.env.USE_MOCK;
+  adapters?.unregisterAdapter('stub');
+});
+
+const mintA = Keypair.generate().publicKey.toBase58();
+const mintB = Keypair.generate().publicKey.toBase58();
+const poolId = Keypair.generate().publicKey.toBase58();
+
+function stubAdapter(outPerUnit: number) {
+  return {
+    name: 'stub',
+    supportsPair: (pool: any) => pool.venue === 'stub',
+    quote: async (ctx: any) => ({ dex: 'stub', poolId: ctx.poolId, outAmountBn: ctx.amountInBn.muln(outPerUnit), details: {} }),
+    buildTransaction: async () => { throw new Error('not used'); },
+    execute: async () => { throw new Error('not used'); }
+  };
+}
+
+describe('adapter registry', () => {
+  it('registers the built-in venues', () => {
+    const names = adapters.getEnabledAdapters().map((a: any) => a.name);
+    expect(names).toEqual(expect.arrayContaining(['meteora', 'raydium', 'mock']));
+  });
+
+  it('honours ENABLED_DEXES and DISABLED_DEXES', () => {
+    process.env.ENABLED_DEXES = 'meteora,mock';
+    process.env.DISABLED_DEXES = 'mock';
+    expect(adapters.isAdapterEnabled('meteora')).toBe(true);
+    expect(adapters.isAdapterEnabled('raydium')).toBe(false);
+    expect(adapters.isAdapterEnabled('mock')).toBe(false);
+    expect(() => adapters.getAdapter('raydium')).toThrow(/disabled/);
+    expect(() => adapters.getAdapter('orca')).toThrow(/no DEX adapter/);
+  });
+
+  it('routes getBestQuote through a newly registered venue', async () => {
+    adapters.registerAdapter(stubAdapter(2));
+    const q = await dexRouter.getBestQuote({
+      conn: {}, amountInBn: new BN(100), tokenIn: mintA, tokenOut: mintB,
+      pools: [{ venue: 'stub', poolId }]
+    });
+    expect(q.dex).toBe('stub');
+    expect(q.poolId).toBe(poolId);
+    expect(q.outAmountBn.toString()).toBe('200');
+  });
+
+  it('does not fall back to mock when the mock venue is disabled', async () => {
+    process.env.DISABLED_DEXES = 'mock';
+    await expect(dexRouter.getBestQuote({ conn: {}, amountInBn: new BN(100), tokenIn: mintA, tokenOut: mintB, pools: [] }))
+      .rejects.toThrow(/no enabled venue/);
+  });
+});
+
+describe('venue adapters', () => {
+  it('meteora quotes through the loaded AMM', async () => {
+    const amm = { getSwapQuote: (_mint: any, amt: BN) => ({ swapOutAmount: amt.muln(3), minSwapOutAmount: amt.muln(2), fee: new BN(1) }) };
+    const adapter = meteora.createMeteoraAdapter({ loadAmm: async () => amm });
+    const q = await adapter.quote({ conn: {}, poolId, tokenIn: mintA, amountInBn: new BN(10) });
+    expect(q.outAmountBn.toString()).toBe('30');
+    expect(q.details.minOut).toBe('20');
+    expect(adapter.supportsPair({ venue: 'meteora', poolId, mintA, mintB }, mintA, mintB)).toBe(true);
+    expect(adapter.supportsPair({ venue: 'raydium', poolId, mintA, mintB }, mintA, mintB)).toBe(false);
+  });
+
+  it('raydium falls back to a constant-product estimate without a curve calculator', async () => {
+    const sdk = {
+      cpmm: {
+        getPoolInfoFromRpc: async () => ({
+          poolInfo: { mintA: { address: mintA } },
+          rpcData: { baseReserve: new BN(1_000), quoteReserve: new BN(2_000), configInfo: { tradeFeeRate: 0 } }
+        })
+      }
+    };
+    const adapter = raydium.createRaydiumAdapter({ loadSdk: async () => sdk });
+    const q = await adapter.quote({ conn: {}, poolId, tokenIn: mintA, amountInBn: new BN(1_000) });
+    expect(q.outAmountBn.toString()).toBe('1000');
+    expect(q.details.fallback).toBe(true);
+  });
+
+  it('loadQuoter reads pool state once and quotes any amount from it', async () => {
+    let loads = 0;
+    const sdk = {
+      cpmm: {
+        getPoolInfoFromRpc: async () => {
+          loads++;
+          return {
+            poolInfo: { mintA: { address: mintA } },
+            rpcData: { baseReserve: new BN(1_000), quoteReserve: new BN(2_000), configInfo: { tradeFeeRate: 0 } }
+          };
+        }
+      }
+    };
+    const quoter = await raydium.createRaydiumAdapter({ loadSdk: async () => sdk }).loadQuoter({ conn: {}, poolId, tokenIn: mintA });
+    expect(quoter(new BN(1_000)).outAmountBn.toString()).toBe('1000');
+    expect(quoter(new BN(500)).outAmountBn.toString()).toBe('666');
+    expect(loads).toBe(1);
+
+    let ammLoads = 0;
+    const amm = { getSwapQuote: (_mint: any, amt: BN) => ({ swapOutAmount: amt.muln(3) }) };
+    const meteoraQuoter = await meteora.createMeteoraAdapter({ loadAmm: async () => { ammLoads++; return amm; } }).loadQuoter({ conn: {}, poolId, tokenIn: mintA });
+    expect([1, 2, 3].map(n => meteoraQuoter(new BN(n)).outAmountBn.toString())).toEqual(['3', '6', '9']);
+    expect(ammLoads).toBe(1);
+  });
+
+  it('fails with venue_unavailable when the SDK hands back nothing it can sign', async () => {
+    // an SDK that sent the swap itself, with no transaction for the execution guard to record first
+    const amm = {
+      getSwapQuote: (_mint: any, amt: BN) => ({ swapInAmount: amt, swapOutAmount: amt, minSwapOutAmount: amt }),
+      swap: async () => ({ txId: 'sent-by-the-sdk' })
+    };
+    const adapter = meteora.createMeteoraAdapter({ loadAmm: async () => amm });
+    await expect(adapter.execute({ conn: {}, wallet: Keypair.generate(), poolId, tokenIn: mintA, tokenOut: mintB, amountInBn: new BN(10) }))
+      .rejects.toMatchObject({ code: 'venue_unavailable' });
+  });
+
+  it('leaves the executed amounts unknown, not the quote, when the landed transaction cannot be read', async () => {
+    adapters.registerAdapter({
+      ...stubAdapter(1),
+      execute: async () => ({ txId: bs58.encode(Buffer.alloc(64, 9)), executedOutBn: new BN(500), dex: 'stub' })
+    });
+    const { executeRoutePlan } = await import('../src/router/routePlanner.js');
+    const conn: any = { getTransaction: async () => null };
+    const res = await executeRoutePlan({ kind: 'single', chosen: 'stub', estimatedOutBn: new BN(500), quote: { dex: 'stub', poolId, outAmountBn: new BN(500) } } as any, {
+      conn, wallet: Keypair.generate(), tokenIn: mintA, tokenOut: mintB, amountInBn: new BN(1_000)
+    });
+    expect(res.executedOutBn).toBeNull();
+    expect(res.executedInBn).toBeNull();
+    expect(res.fillUnknown).toBe(true);
+    expect((res as any).expectedOutBn.toString()).toBe('500');
+  });
+
+  it('mock executes a simulated swap', async () => {
+    const { createMockAdapter } = await import('../src/router/adapters/mockAdapter.js');
+    const adapter = createMockAdapter({ minDelayMs: 0, jitterMs: 0 });
+    const res = await adapter.execute({ conn: {} as any, wallet: Keypair.generate(), poolId: 'mock', tokenIn: mintA, tokenOut: mintB, amountInBn: new BN(10_000) });
+    expect(res.executedOutBn.toString()).toBe('9949');
+    expect(res.simulated).toBe(true);
+    expect(res.txId).toMatch(/^MOCK-/);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { TransactionExpiredBlockheightExceededError } from '@solana/web3.js';
+import { classifyError, OrderError } from '../src/utils/errors.js';
+
+describe('classifyError', () => {
+  it('maps known failures onto the taxonomy', () => {
+    expect(classifyError(new TransactionExpiredBlockheightExceededError('sig')).code).toBe('blockhash_expired');
+    expect(classifyError(new Error('raydium estimated output 90 is below required minimum 95')).code).toBe('slippage_exceeded');
+    expect(classifyError(Object.assign(new Error('Simulation failed'), { logs: ['Program log: Error: insufficient funds'] })).code).toBe('insufficient_funds');
+    expect(classifyError(new Error('failed to send transaction: custom program error: 0x1')).code).toBe('insufficient_funds');
+    expect(classifyError(new Error('Invalid public key input')).code).toBe('invalid_input');
+    expect(classifyError(new Error('Meteora SDK (AmmImpl) not available')).code).toBe('venue_unavailable');
+    expect(classifyError(new Error('429 Too Many Requests')).code).toBe('rpc_transient');
+    expect(classifyError(new Error('something odd')).code).toBe('unknown');
+  });
+
+  it('splits retryable from terminal codes', () => {
+    expect(classifyError(new Error('fetch failed')).retryable).toBe(true);
+    expect(classifyError(new Error('custom program error: 0x1771 slippage tolerance exceeded')).retryable).toBe(false);
+    expect(new OrderError('price_moved', 'x').retryable).toBe(false);
+    expect(classifyError(new Error('unknown failure')).retryable).toBe(true);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Keypair, TransactionExpiredBlockheightExceededError } from '@solana/web3.js';
+
+// in-memory order_executions with the same replace-only-if-settled rule as db.ts
+const rows = new Map<string, any>();
+const log: string[] = [];
+vi.mock('../src/config/db.js', () => ({
+  recordOrderExecution: async (e: any) => {
+    const prev = rows.get(`${e.order_id}/${e.leg}`);
+    if (prev && prev.status !== 'failed' && prev.status !== 'expired') return false;
+    rows.set(`${e.order_id}/${e.leg}`, { ...e, status: 'sent' });
+    log.push('record');
+    return true;
+  },
+  settleOrderExecution: async (orderId: string, leg: string, signature: string, status: string) => {
+    const row = rows.get(`${orderId}/${leg}`);
+    if (row?.signature === signature) row.status = status;
+  },
+  getOrderExecutions: async (orderId: string) => [...rows.values()].filter(r => r.order_id === orderId).map(r => ({ ...r }))
+}));
+
+import { sendGuardedTransaction, resolvePriorExecutions } from '../src/execution/executionGuard.js';
+
+process.env.TX_POLL_MS = '1';
+const landedStatus = { slot: 1, err: null, confirmationStatus: 'confirmed' };
+
+function fakeTx() {
+  return {
+    recentBlockhash: 'Bhash1111111111111111111111111111111111111111',
+    signature: null as Buffer | null,
+    partialSign() { this.signature = Buffer.alloc(64, 7); },
+    serialize: () => Buffer.from('tx')
+  };
+}
+
+function fakeConn(o: { confirm?: () => Promise<any>; status?: any } = {}) {
+  return {
+    getLatestBlockhash: async () => ({ blockhash: 'x', lastValidBlockHeight: 1000 }),
+    sendRawTransaction: vi.fn(async () => { log.push('send'); return 'sig'; }),
+    confirmTransaction: vi.fn(o.confirm ?? (async () => ({ value: { err: null } }))),
+    getSignatureStatuses: async () => ({ value: [o.status ?? null] }),
+    getBlockHeight: async () => 900
+  } as any;
+}
+
+const wallet = Keypair.generate();
+
+describe('executionGuard', () => {
+  beforeEach(() => {
+    rows.clear();
+    log.length = 0;
+  });
+
+  it('records the signature before sending and settles it once confirmed', async () => {
+    const sig = await sendGuardedTransaction(fakeConn({ status: landedStatus }), wallet, fakeTx(), { guard: { orderId: 'o1', leg: 'single' }, venue: 'meteora' });
+    expect(log).toEqual(['record', 'send']);
+    expect(rows.get('o1/single')).toMatchObject({ signature: sig, last_valid_block_height: '1000', status: 'confirmed' });
+  });
+
+  it('reports the leg\'s commitments to the guard, even when the listener fails', async () => {
+    const updates: any[] = [];
+    const onStatus = async (u: any) => {
+      updates.push(u);
+      throw new Error('redis down');
+    };
+    const sig = await sendGuardedTransaction(fakeConn({ status: landedStatus }), wallet, fakeTx(), { guard: { orderId: 'o1', leg: 'hop:1', onStatus }, venue: 'raydium' });
+    expect(updates).toEqual([{ leg: 'hop:1', signature: sig, commitment: 'confirmed', slot: 1 }]);
+    expect(rows.get('o1/hop:1')).toMatchObject({ status: 'confirmed' });
+  });
+
+  it('refuses to send while an earlier transaction is unresolved', async () => {
+    rows.set('o2/single', { order_id: 'o2', leg: 'single', signature: 'old', status: 'sent' });
+    const conn = fakeConn();
+    await expect(sendGuardedTransaction(conn, wallet, fakeTx(), { guard: { orderId: 'o2', leg: 'single' }, venue: 'meteora' })).rejects.toMatchObject({ code: 'execution_in_flight', retryable: false, message: expect.stringMatching(/in flight/) });
+    expect(conn.sendRawTransaction).not.toHaveBeenCalled();
+  });
+
+  it('reports a landed transaction from an earlier attempt', async () => {
+    rows.set('o3/single', { order_id: 'o3', leg: 'single', signature: 'old', blockhash: 'b', last_valid_block_height: '1000', status: 'sent' });
+    const landed = await resolvePriorExecutions(fakeConn({ status: { err: null, confirmationStatus: 'confirmed' } }), 'o3');
+    expect(landed.map(e => e.signature)).toEqual(['old']);
+    expect(rows.get('o3/single').status).toBe('confirmed');
+  });
+
+  it('keeps tracking a pending transaction and allows a resend only after it expired', async () => {
+    rows.set('o4/single', { order_id: 'o4', leg: 'single', signature: 'old', blockhash: 'b', last_valid_block_height: '1000', status: 'sent' });
+    const conn = fakeConn({ confirm: async () => { throw new TransactionExpiredBlockheightExceededError('old'); } });
+    expect(await resolvePriorExecutions(conn, 'o4')).toEqual([]);
+    expect(conn.confirmTransaction).toHaveBeenCalledWith({ signature: 'old', blockhash: 'b', lastValidBlockHeight: 1000 }, 'confirmed');
+    expect(rows.get('o4/single').status).toBe('expired');
+
+    await sendGuardedTransaction(fakeConn({ status: landedStatus }), wallet, fakeTx(), { guard: { orderId: 'o4', leg: 'single' }, venue: 'raydium' });
+    expect(rows.get('o4/single').status).toBe('confirmed');
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import BN from 'bn.js';
+import { Keypair } from '@solana/web3.js';
+import { NATIVE_MINT } from '@solana/spl-token';
+import { fillFromBalances, readSwapFill, realizedExecution } from '../src/execution/fills.js';
+
+const owner = Keypair.generate().publicKey;
+const pool = Keypair.generate().publicKey;
+const mintIn = Keypair.generate().publicKey.toBase58();
+const mintOut = Keypair.generate().publicKey.toBase58();
+
+function balance(accountIndex: number, mint: string, amount: string, who = owner.toBase58()) {
+  return { accountIndex, mint, owner: who, uiTokenAmount: { amount, decimals: 6, uiAmount: null, uiAmountString: amount } };
+}
+
+const tokenMeta = {
+  fee: 5000,
+  preBalances: [1_000_000, 0],
+  postBalances: [995_000, 0],
+  preTokenBalances: [balance(1, mintIn, '10000'), balance(2, mintOut, '500'), balance(3, mintOut, '900000', pool.toBase58())],
+  postTokenBalances: [balance(1, mintIn, '9000'), balance(2, mintOut, '2480'), balance(3, mintOut, '898020', pool.toBase58())]
+};
+
+describe('swap fills', () => {
+  it('reads the amounts in and out from the owner\'s token balances', () => {
+    const fill = fillFromBalances(tokenMeta, [owner, pool], { owner, tokenIn: mintIn, tokenOut: mintOut });
+    expect(fill.amountInBn.toString()).toBe('1000');
+    expect(fill.amountOutBn.toString()).toBe('1980');
+  });
+
+  it('uses the lamport change net of the fee for SOL wrapped and closed inside the swap', () => {
+    const meta = {
+      fee: 5000,
+      preBalances: [3_000_000, 0],
+      postBalances: [4_995_000, 0],
+      preTokenBalances: [balance(1, mintIn, '10000')],
+      postTokenBalances: [balance(1, mintIn, '9000')]
+    };
+    const fill = fillFromBalances(meta, [owner, pool], { owner, tokenIn: mintIn, tokenOut: 'SOL' });
+    expect(fill.amountInBn.toString()).toBe('1000');
+    expect(fill.amountOutBn.toString()).toBe('2000000');
+
+    const asMint = fillFromBalances(meta, [owner, pool], { owner, tokenIn: mintIn, tokenOut: NATIVE_MINT.toBase58() });
+    expect(asMint.amountOutBn.toString()).toBe('2000000');
+  });
+
+  it('fetches the confirmed transaction, retrying while the RPC does not have it yet', async () => {
+    let calls = 0;
+    const conn: any = {
+      getTransaction: async () => (++calls < 2 ? null : {
+        meta: { ...tokenMeta, loadedAddresses: { writable: [], readonly: [] } },
+        transaction: { message: { getAccountKeys: () => ({ staticAccountKeys: [owner, pool], accountKeysFromLookups: { writable: [], readonly: [] } }) } }
+      })
+    };
+    const fill = await readSwapFill(conn, 'sig', { owner, tokenIn: mintIn, tokenOut: mintOut });
+    expect(calls).toBe(2);
+    expect(fill?.amountOutBn.toString()).toBe('1980');
+  });
+
+  it('computes the realized price and the slippage versus the quote as exact strings', () => {
+    const quote = { amountInBn: new BN(1000), amountOutBn: new BN(2000) };
+    expect(realizedExecution(quote, new BN(1000), new BN(1980))).toEqual({ amountIn: '1000', amountOut: '1980', price: '1.98', slippageBps: '100' });
+    // a better fill than quoted is negative slippage; spending less than quoted is compared by price
+    expect(realizedExecution(quote, new BN(1000), new BN(2001)).slippageBps).toBe('-5');
+    expect(realizedExecution(quote, new BN(500), new BN(995)).slippageBps).toBe('50');
+    expect(realizedExecution(null, new BN(3), new BN(7))).toEqual({ amountIn: '3', amountOut: '7', price: '2.333333333333333333', slippageBps: null });
+  });
+});
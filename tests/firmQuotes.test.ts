@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import BN from 'bn.js';
+import RedisMock from 'ioredis-mock';
+import { createFirmQuote, peekFirmQuote, takeFirmQuote, lockQuote, assertQuoteNotExpired, assertQuoteHonored } from '../src/quotes/firmQuotes.js';
+import { OrderError } from '../src/utils/errors.js';
+
+const base = {
+  venue: 'raydium',
+  poolId: 'pool-1',
+  pools: [{ venue: 'raydium', poolId: 'pool-1' }],
+  tokenIn: 'A',
+  tokenOut: 'B',
+  amountIn: '1000',
+  expectedOut: '995',
+  minOut: '985',
+  slippage: 1
+};
+
+describe('firm quotes', () => {
+  it('stores a quote under quote:<id> and hands it out once', async () => {
+    const redis: any = new RedisMock();
+    const q = await createFirmQuote(redis, base, 30);
+    expect(await redis.ttl(`quote:${q.quoteId}`)).toBeGreaterThan(0);
+
+    const taken = await takeFirmQuote(redis, q.quoteId);
+    expect(taken).toMatchObject({ quoteId: q.quoteId, venue: 'raydium', poolId: 'pool-1', minOut: '985' });
+    expect(await takeFirmQuote(redis, q.quoteId)).toBeNull();
+  });
+
+  it('peeks at a quote without taking it, so a rejected order leaves it usable', async () => {
+    const redis: any = new RedisMock();
+    const q = await createFirmQuote(redis, { ...base, venue: 'multi_hop', poolId: null, pools: [{ venue: 'raydium', poolId: 'p1' }, { venue: 'meteora', poolId: 'p2' }] }, 30);
+    expect(await peekFirmQuote(redis, q.quoteId)).toMatchObject({ quoteId: q.quoteId });
+    expect(await peekFirmQuote(redis, q.quoteId)).not.toBeNull();
+
+    const taken = await takeFirmQuote(redis, q.quoteId);
+    expect(lockQuote(taken!).pools).toEqual([{ venue: 'raydium', poolId: 'p1' }, { venue: 'meteora', poolId: 'p2' }]);
+    expect(await peekFirmQuote(redis, q.quoteId)).toBeNull();
+  });
+
+  it('fails with quote_expired after the TTL', () => {
+    const locked = lockQuote({ ...base, quoteId: 'q1', createdAt: 0, expiresAt: 1_000 });
+    expect(() => assertQuoteNotExpired(locked, 999)).not.toThrow();
+    try {
+      assertQuoteNotExpired(locked, 1_001);
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(OrderError);
+      expect((e as OrderError).code).toBe('quote_expired');
+    }
+  });
+
+  it('fails with price_moved when the fresh quote is below the locked min out', () => {
+    const locked = lockQuote({ ...base, quoteId: 'q1', createdAt: 0, expiresAt: Date.now() + 30_000 });
+    expect(() => assertQuoteHonored(locked, new BN(985))).not.toThrow();
+    expect(() => assertQuoteHonored(locked, new BN(984))).toThrow(expect.objectContaining({ code: 'price_moved' }));
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const byKey = new Map<string, any>();
+vi.mock('../src/config/db.js', () => ({
+  getOrderByIdempotencyKey: async (key: string, userId: string | null) => byKey.get(`${userId ?? ''}/${key}`) ?? null
+}));
+
+import { requestHash, isValidIdempotencyKey, checkIdempotencyKey } from '../src/orders/idempotency.js';
+
+describe('idempotency', () => {
+  it('hashes bodies independently of key order', () => {
+    const a = requestHash({ token_in: 'A', token_out: 'B', amount_in: '100', extra: { y: 1, x: 2 } });
+    const b = requestHash({ extra: { x: 2, y: 1 }, amount_in: '100', token_out: 'B', token_in: 'A' });
+    expect(a).toBe(b);
+    expect(requestHash({ token_in: 'A', token_out: 'B', amount_in: '101' })).not.toBe(a);
+  });
+
+  it('validates keys', () => {
+    expect(isValidIdempotencyKey('order-2026-10-19-0001')).toBe(true);
+    expect(isValidIdempotencyKey('')).toBe(false);
+    expect(isValidIdempotencyKey('has space')).toBe(false);
+    expect(isValidIdempotencyKey('x'.repeat(256))).toBe(false);
+  });
+
+  it('replays the same body and rejects a different one', async () => {
+    const hash = requestHash({ token_in: 'A', token_out: 'B', amount_in: '100' });
+    byKey.set('/k1', { id: 'o1', status: 'confirmed', request_hash: hash });
+    expect(await checkIdempotencyKey('k1', hash)).toEqual({ kind: 'replay', orderId: 'o1', status: 'confirmed' });
+    expect(await checkIdempotencyKey('k1', requestHash({ amount_in: '5' }))).toEqual({ kind: 'mismatch', orderId: 'o1' });
+    expect(await checkIdempotencyKey('k2', hash)).toEqual({ kind: 'new' });
+  });
+
+  it('scopes keys per user, so another user\'s key is a new order', async () => {
+    const hash = requestHash({ token_in: 'A', token_out: 'B', amount_in: '100' });
+    byKey.set('user-1/order-1', { id: 'o9', user_id: 'user-1', status: 'pending', request_hash: hash });
+    expect(await checkIdempotencyKey('order-1', requestHash({ amount_in: '7' }), 'user-2')).toEqual({ kind: 'new' });
+    expect(await checkIdempotencyKey('order-1', hash, 'user-1')).toEqual({ kind: 'replay', orderId: 'o9', status: 'pending' });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { parseOrderListQuery, encodeOrderCursor, decodeOrderCursor, toOrderPage, ORDERS_DEFAULT_LIMIT } from '../src/orders/orderQuery.js';
+
+const id1 = '6f1c1e8a-2b7a-4c59-9a51-0d7e5c1b2a01';
+const id2 = '6f1c1e8a-2b7a-4c59-9a51-0d7e5c1b2a02';
+
+describe('orderQuery', () => {
+  it('round-trips cursors without losing timestamp precision', () => {
+    const cursor = encodeOrderCursor('2026-10-19 12:00:00.123456+00', id1);
+    expect(decodeOrderCursor(cursor)).toEqual({ createdAt: '2026-10-19 12:00:00.123456+00', id: id1 });
+    expect(decodeOrderCursor('bm90LWEtY3Vyc29y')).toBeNull();
+  });
+
+  it('parses filters with defaults', () => {
+    const res: any = parseOrderListQuery({ user_id: 'u1', status: 'confirmed,failed', token_in: 'A', token_out: 'B', from: '2026-10-01' });
+    expect(res.filters).toMatchObject({
+      userId: 'u1',
+      statuses: ['confirmed', 'failed'],
+      tokenIn: 'A',
+      tokenOut: 'B',
+      from: '2026-10-01T00:00:00.000Z',
+      limit: ORDERS_DEFAULT_LIMIT,
+      cursor: null
+    });
+  });
+
+  it('rejects bad limits, dates and cursors', () => {
+    expect(parseOrderListQuery({ limit: '0' })).toHaveProperty('error');
+    expect(parseOrderListQuery({ limit: '1000' })).toHaveProperty('error');
+    expect(parseOrderListQuery({ to: 'yesterday' })).toHaveProperty('error');
+    expect(parseOrderListQuery({ cursor: 'garbage' })).toHaveProperty('error');
+  });
+
+  it('trims the look-ahead row and points the next cursor at the last order', () => {
+    const rows = [
+      { id: id2, status: 'confirmed', cursor_ts: '2026-10-19 12:00:01+00' },
+      { id: id1, status: 'failed', cursor_ts: '2026-10-19 12:00:00+00' },
+      { id: 'extra', status: 'pending', cursor_ts: '2026-10-19 11:59:59+00' }
+    ];
+    const page = toOrderPage(rows, 2);
+    expect(page.orders).toEqual([{ id: id2, status: 'confirmed' }, { id: id1, status: 'failed' }]);
+    expect(decodeOrderCursor(page.nextCursor!)).toEqual({ createdAt: '2026-10-19 12:00:00+00', id: id1 });
+    expect(toOrderPage(rows.slice(0, 2), 2).nextCursor).toBeNull();
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import BN from 'bn.js';
+
+// every hop quotes 2 out per unit in; nothing is executed here
+vi.mock('../src/router/adapters/index.js', () => ({
+  isAdapterEnabled: () => true,
+  getAdapter: () => ({ quote: async (ctx: any) => ({ outAmountBn: ctx.amountInBn.muln(2) }) })
+}));
+vi.mock('../src/router/dexRouter.js', () => ({ executeSwap: async () => { throw new Error('not used'); } }));
+
+import { findPaths, pathTokens } from '../src/router/pathFinder.js';
+import { getBestMultiHopQuote } from '../src/router/multiHop.js';
+import { PoolInfo } from '../src/router/pools.js';
+import { WSOL_MINT } from '../src/utils/solanaHelpers.js';
+
+const pools: PoolInfo[] = [
+  { venue: 'meteora', poolId: 'P1', mintA: 'A', mintB: 'USDC' },
+  { venue: 'raydium', poolId: 'P2', mintA: 'USDC', mintB: 'B' },
+  { venue: 'raydium', poolId: 'P3', mintA: 'A', mintB: 'SOL' },
+  { venue: 'meteora', poolId: 'P4', mintA: 'SOL', mintB: 'USDC' },
+];
+
+describe('pathFinder.findPaths', () => {
+  it('finds A -> USDC -> B through an intermediate token', () => {
+    const paths = findPaths(pools, 'A', 'B', 2);
+    expect(paths).toHaveLength(1);
+    expect(pathTokens(paths[0])).toEqual(['A', 'USDC', 'B']);
+    expect(paths[0].map(h => h.pool.poolId)).toEqual(['P1', 'P2']);
+  });
+
+  it('includes longer paths up to maxHops, shortest first', () => {
+    const paths = findPaths(pools, 'A', 'B', 3);
+    expect(paths.map(pathTokens)).toEqual([
+      ['A', 'USDC', 'B'],
+      ['A', 'SOL', 'USDC', 'B'],
+    ]);
+  });
+
+  it('traverses pools in either direction and never revisits a token', () => {
+    const paths = findPaths(pools, 'B', 'A', 3);
+    for (const p of paths) {
+      const tokens = pathTokens(p);
+      expect(new Set(tokens).size).toBe(tokens.length);
+    }
+    expect(paths[0].map(h => h.pool.poolId)).toEqual(['P2', 'P1']);
+  });
+
+  it('returns nothing for unconnected or identical tokens', () => {
+    expect(findPaths(pools, 'A', 'Z')).toEqual([]);
+    expect(findPaths(pools, 'A', 'A')).toEqual([]);
+  });
+});
+
+describe('multiHop.getBestMultiHopQuote', () => {
+  it('routes native SOL through WSOL pools and keeps SOL on the first hop for execution', async () => {
+    const wsolPools: PoolInfo[] = [
+      { venue: 'meteora', poolId: 'W1', mintA: WSOL_MINT, mintB: 'USDC' },
+      { venue: 'raydium', poolId: 'W2', mintA: 'USDC', mintB: 'B' },
+    ];
+    const route = await getBestMultiHopQuote({ conn: {} as any, amountInBn: new BN(10), tokenIn: 'SOL', tokenOut: 'B', pools: wsolPools });
+    expect(route?.path).toEqual([WSOL_MINT, 'USDC', 'B']);
+    expect(route?.hops.map(h => [h.tokenIn, h.tokenOut])).toEqual([['SOL', 'USDC'], ['USDC', 'B']]);
+    expect(route?.outAmountBn.toString()).toBe('40');
+  });
+});
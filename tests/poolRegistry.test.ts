@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import BN from 'bn.js';
+import { Keypair } from '@solana/web3.js';
+
+// config.ts needs a wallet and mints at import time
+process.env.WALLET_PRIVATE_KEY_JSON ??= JSON.stringify(Array.from(Keypair.generate().secretKey));
+process.env.USDC_DEV_MINT ??= Keypair.generate().publicKey.toBase58();
+process.env.TEST_DEV_MINT ??= Keypair.generate().publicKey.toBase58();
+
+const rows: any[] = [];
+vi.mock('../src/config/db.js', () => ({
+  listPools: async () => rows
+}));
+
+const key = () => Keypair.generate().publicKey.toBase58();
+const usdc = key();
+const sol = key();
+const bonk = key();
+const orphan = key();
+
+let registry: any;
+let planner: any;
+beforeAll(async () => {
+  registry = await import('../src/router/poolRegistry.js');
+  planner = await import('../src/router/routePlanner.js');
+});
+
+beforeEach(() => {
+  rows.length = 0;
+  delete process.env.POOL_ADDRESS;
+  delete process.env.POOL_ID;
+  delete process.env.KNOWN_POOLS;
+  process.env.USE_MOCK = 'false';
+  registry.invalidatePoolRegistry();
+});
+
+describe('poolRegistry', () => {
+  it('merges env seed pools unless the table has the same pool', async () => {
+    process.env.POOL_ADDRESS = 'envMeteora';
+    process.env.POOL_ID = 'envRaydium';
+    rows.push(
+      { venue: 'raydium', pool_id: 'envRaydium', mint_a: usdc, mint_b: sol, pool_type: 'cpmm', enabled: false },
+      { venue: 'meteora', pool_id: 'dbMeteora', mint_a: usdc, mint_b: bonk, pool_type: 'dynamic_amm', enabled: true }
+    );
+    const pools = await registry.getPoolRegistry();
+    const ids = pools.map((p: any) => p.poolId).sort();
+    // envRaydium is disabled in the table, so the env entry must not resurrect it
+    expect(ids).toEqual(['dbMeteora', 'envMeteora']);
+  });
+
+  it('reports whether a pair has a direct pool or a path', async () => {
+    rows.push(
+      { venue: 'meteora', pool_id: 'p1', mint_a: usdc, mint_b: sol, enabled: true },
+      { venue: 'raydium', pool_id: 'p2', mint_a: usdc, mint_b: bonk, enabled: true }
+    );
+    expect(await registry.isPairSupported(sol, usdc)).toBe(true);
+    expect(await registry.isPairSupported(sol, bonk)).toBe(true);
+    expect(await registry.isPairSupported(sol, orphan)).toBe(false);
+  });
+
+  it('selects only direct pools on enabled venues', () => {
+    const pools = [
+      { venue: 'meteora', poolId: 'p1', mintA: usdc, mintB: sol },
+      { venue: 'raydium', poolId: 'p2', mintA: sol, mintB: usdc },
+      { venue: 'raydium', poolId: 'p3', mintA: usdc, mintB: bonk },
+      { venue: 'orca', poolId: 'p4', mintA: usdc, mintB: sol }
+    ];
+    expect(registry.directPools(pools, usdc, sol).map((p: any) => p.poolId)).toEqual(['p1', 'p2']);
+  });
+
+  it('rejects an order for a pair with no pool', async () => {
+    await expect(planner.planRoute({ conn: {}, amountInBn: new BN(1000), tokenIn: sol, tokenOut: orphan, pools: [] }))
+      .rejects.toThrow(/unsupported pair/);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import BN from 'bn.js';
+import { parseDecimalToScaled, formatScaled, priceFromAmounts, comparePrice } from '../src/utils/price.js';
+
+describe('price utils (base-unit prices without floating point)', () => {
+  it('parses and formats decimal strings round-trip', () => {
+    expect(formatScaled(parseDecimalToScaled('0.995'))).toBe('0.995');
+    expect(formatScaled(parseDecimalToScaled('12'))).toBe('12');
+    expect(formatScaled(parseDecimalToScaled('0.000000000000000001'))).toBe('0.000000000000000001');
+  });
+
+  it('rejects malformed decimals', () => {
+    expect(() => parseDecimalToScaled('-1')).toThrow();
+    expect(() => parseDecimalToScaled('1e5')).toThrow();
+    expect(() => parseDecimalToScaled('abc')).toThrow();
+  });
+
+  it('priceFromAmounts returns exact out/in', () => {
+    expect(priceFromAmounts(new BN('994900'), new BN('1000000'))).toBe('0.9949');
+    expect(priceFromAmounts(new BN('3'), new BN('2'))).toBe('1.5');
+  });
+
+  it('comparePrice detects when a limit price is crossed', () => {
+    const amountIn = new BN('1000000');
+    expect(comparePrice(new BN('994900'), amountIn, '0.99')).toBe(1);
+    expect(comparePrice(new BN('990000'), amountIn, '0.99')).toBe(0);
+    expect(comparePrice(new BN('989999'), amountIn, '0.99')).toBe(-1);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import * as crypto from 'crypto';
+import { ComputeBudgetProgram, Keypair, SystemProgram, Transaction, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import { percentileFee, planPriorityFee, computeUnitLimit, applyComputeBudget, withPriorityFee } from '../src/execution/priorityFees.js';
+
+const payer = Keypair.generate().publicKey;
+const pool = Keypair.generate().publicKey;
+const blockhash = Keypair.generate().publicKey.toBase58();
+const transfer = SystemProgram.transfer({ fromPubkey: payer, toPubkey: pool, lamports: 1 });
+
+function legacyTx() {
+  const tx = new Transaction({ feePayer: payer, recentBlockhash: blockhash });
+  tx.add(ComputeBudgetProgram.setComputeUnitLimit({ units: 1_400_000 }), transfer);
+  return tx;
+}
+
+function verifies(message: Uint8Array, signature: Uint8Array, publicKey: Uint8Array) {
+  // ed25519 SPKI prefix ahead of the raw 32-byte key
+  const key = crypto.createPublicKey({ key: Buffer.concat([Buffer.from('302a300506032b6570032100', 'hex'), publicKey]), format: 'der', type: 'spki' });
+  return crypto.verify(null, message, key, signature);
+}
+
+function budgetOf(instructions: { programId: any; data: Buffer }[]) {
+  return instructions.filter(ix => ix.programId.equals(ComputeBudgetProgram.programId));
+}
+
+afterEach(() => {
+  delete process.env.PRIORITY_FEE_STRATEGY;
+  delete process.env.PRIORITY_FEE_MICROLAMPORTS;
+  delete process.env.PRIORITY_FEE_PERCENTILE;
+});
+
+describe('priority fees', () => {
+  it('picks the nearest-rank percentile of recent fees', () => {
+    expect(percentileFee([], 75)).toBe(0);
+    expect(percentileFee([40, 10, 30, 20], 75)).toBe(30);
+    expect(percentileFee([40, 10, 30, 20], 100)).toBe(40);
+    expect(percentileFee([40, 10, 30, 20], 0)).toBe(10);
+  });
+
+  it('sizes the unit limit from the simulation and lowers the price to fit the cap', () => {
+    expect(computeUnitLimit(100_000)).toBe(120_300);
+    expect(computeUnitLimit(2_000_000)).toBe(1_400_000);
+
+    expect(planPriorityFee('fixed', 1_000, 200_000, 1_000_000)).toEqual({ strategy: 'fixed', computeUnits: 200_000, microLamports: 1_000, lamports: 200 });
+    // 200k units at 1M microlamports would be 200k lamports; a 50k cap allows 250k microlamports
+    expect(planPriorityFee('percentile', 1_000_000, 200_000, 50_000)).toEqual({ strategy: 'percentile', computeUnits: 200_000, microLamports: 250_000, lamports: 50_000 });
+  });
+
+  it('replaces the compute budget instructions of legacy and versioned transactions', async () => {
+    const fee = planPriorityFee('fixed', 5_000, 150_000, 1_000_000);
+
+    const legacy = await applyComputeBudget({} as any, legacyTx(), fee);
+    expect(legacy.instructions).toHaveLength(3);
+    expect(budgetOf(legacy.instructions)).toHaveLength(2);
+    expect(legacy.instructions[0].data.readUInt32LE(1)).toBe(150_000);
+
+    const message = new TransactionMessage({ payerKey: payer, recentBlockhash: blockhash, instructions: [transfer] }).compileToV0Message();
+    const versioned = await applyComputeBudget({} as any, new VersionedTransaction(message), fee);
+    const decompiled = TransactionMessage.decompile(versioned.message);
+    expect(decompiled.instructions).toHaveLength(3);
+    expect(budgetOf(decompiled.instructions)).toHaveLength(2);
+    expect(decompiled.instructions[2].programId.equals(SystemProgram.programId)).toBe(true);
+  });
+
+  it('signs again with the SDK\'s extra signers, and refuses to drop a signature it cannot redo', async () => {
+    const fee = planPriorityFee('fixed', 5_000, 150_000, 1_000_000);
+    const wallet = Keypair.generate();
+    const temp = Keypair.generate();
+    const open = SystemProgram.createAccount({ fromPubkey: wallet.publicKey, newAccountPubkey: temp.publicKey, lamports: 1, space: 0, programId: SystemProgram.programId });
+    const signedBySdk = () => {
+      const tx = new VersionedTransaction(new TransactionMessage({ payerKey: wallet.publicKey, recentBlockhash: blockhash, instructions: [open] }).compileToV0Message());
+      tx.sign([temp]);
+      return tx;
+    };
+
+    const versioned = await applyComputeBudget({} as any, signedBySdk(), fee, [temp]);
+    versioned.sign([wallet]);
+    expect(() => versioned.serialize()).not.toThrow();
+    const tempIndex = versioned.message.staticAccountKeys.findIndex(k => k.equals(temp.publicKey));
+    expect(verifies(versioned.message.serialize(), versioned.signatures[tempIndex], temp.publicKey.toBytes())).toBe(true);
+
+    await expect(applyComputeBudget({} as any, signedBySdk(), fee)).rejects.toThrow(temp.publicKey.toBase58());
+
+    const legacy = new Transaction({ feePayer: wallet.publicKey, recentBlockhash: blockhash }).add(open);
+    legacy.partialSign(temp);
+    const budgeted = await applyComputeBudget({} as any, legacy, fee, [temp]);
+    budgeted.partialSign(wallet);
+    expect(budgeted.verifySignatures()).toBe(true);
+  });
+
+  it('prices from the swap\'s writable accounts, falling back to the fixed price when the RPC fails', async () => {
+    let asked: string[] = [];
+    const conn: any = {
+      getRecentPrioritizationFees: async (opts: any) => {
+        asked = opts.lockedWritableAccounts.map((k: any) => k.toBase58());
+        return [{ slot: 1, prioritizationFee: 100 }, { slot: 2, prioritizationFee: 900 }];
+      }
+    };
+    process.env.PRIORITY_FEE_PERCENTILE = '50';
+    const res = await withPriorityFee(conn, legacyTx(), { unitsConsumed: 100_000, maxLamports: 1_000_000, venue: 'meteora' });
+    expect(asked).toEqual([pool.toBase58()]);
+    expect(res.priorityFee).toMatchObject({ strategy: 'percentile', microLamports: 100, computeUnits: 120_300 });
+
+    process.env.PRIORITY_FEE_MICROLAMPORTS = '7';
+    const failing: any = { getRecentPrioritizationFees: async () => { throw new Error('429 Too Many Requests'); } };
+    const fallback = await withPriorityFee(failing, legacyTx(), { unitsConsumed: 100_000, maxLamports: 1_000_000, venue: 'raydium' });
+    expect(fallback.priorityFee?.microLamports).toBe(7);
+
+    process.env.PRIORITY_FEE_STRATEGY = 'none';
+    const untouched = legacyTx();
+    const none = await withPriorityFee(conn, untouched, { unitsConsumed: 100_000, venue: 'raydium' });
+    expect(none).toEqual({ tx: untouched, priorityFee: null });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import BN from 'bn.js';
+import { Keypair } from '@solana/web3.js';
+
+// config.ts needs a wallet and mints at import time
+process.env.WALLET_PRIVATE_KEY_JSON ??= JSON.stringify(Array.from(Keypair.generate().secretKey));
+process.env.USDC_DEV_MINT ??= Keypair.generate().publicKey.toBase58();
+process.env.TEST_DEV_MINT ??= Keypair.generate().publicKey.toBase58();
+
+vi.mock('../src/config/db.js', () => ({
+  listPools: async () => []
+}));
+
+const usdc = Keypair.generate().publicKey.toBase58();
+const sol = Keypair.generate().publicKey.toBase58();
+
+function stubAdapter(name: string, outPerThousand: number | null) {
+  return {
+    name,
+    supportsPair: (pool: any) => pool.venue === name,
+    quote: async (ctx: any) => {
+      if (outPerThousand == null) throw new Error('pool unavailable');
+      const out = ctx.amountInBn.muln(outPerThousand).divn(1000);
+      return { dex: name, poolId: ctx.poolId, outAmountBn: out, feeBn: ctx.amountInBn.divn(400), priceImpact: 0.0123, details: {} };
+    },
+    buildTransaction: async () => { throw new Error('not used'); },
+    execute: async () => { throw new Error('not used'); }
+  };
+}
+
+let preview: any;
+let adapters: any;
+beforeAll(async () => {
+  process.env.USE_MOCK = 'false';
+  adapters = await import('../src/router/adapters/index.js');
+  preview = await import('../src/quotes/quotePreview.js');
+  adapters.registerAdapter(stubAdapter('stubA', 990));
+  adapters.registerAdapter(stubAdapter('stubB', 995));
+  adapters.registerAdapter(stubAdapter('stubC', null));
+});
+
+afterAll(() => {
+  ['stubA', 'stubB', 'stubC'].forEach(n => adapters.unregisterAdapter(n));
+});
+
+describe('quotePreview', () => {
+  it('computes min out at the requested slippage', () => {
+    expect(preview.minOutAtSlippage(new BN(10_000), 1).toString()).toBe('9900');
+    expect(preview.minOutAtSlippage(new BN(10_000), 0.25).toString()).toBe('9975');
+  });
+
+  it('returns every venue quote and marks the one the router would choose', async () => {
+    const res = await preview.previewQuotes({
+      conn: {},
+      amountInBn: new BN(1_000_000),
+      tokenIn: usdc,
+      tokenOut: sol,
+      slippagePercent: 0.5,
+      pools: [
+        { venue: 'stubA', poolId: 'pA', mintA: usdc, mintB: sol },
+        { venue: 'stubB', poolId: 'pB', mintA: sol, mintB: usdc },
+        { venue: 'stubC', poolId: 'pC', mintA: usdc, mintB: sol }
+      ]
+    });
+
+    expect(res.quotes).toHaveLength(3);
+    const b = res.quotes.find((q: any) => q.venue === 'stubB');
+    expect(b).toMatchObject({ poolId: 'pB', expectedOut: '995000', minOut: '990025', fee: '2500', priceImpactPct: 1.23, price: '0.995', chosen: true });
+    expect(res.quotes.find((q: any) => q.venue === 'stubA').chosen).toBe(false);
+    expect(res.quotes.find((q: any) => q.venue === 'stubC')).toMatchObject({ expectedOut: null, error: expect.stringContaining('pool unavailable') });
+    expect(res.chosen).toEqual({ venue: 'stubB', poolId: 'pB', expectedOut: '995000', minOut: '990025' });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fastify from 'fastify';
+import { Keypair } from '@solana/web3.js';
+import { ajvOptions, executeOrderBodySchema, quoteBodySchema, toFieldErrors, validationFailed } from '../src/api/schemas.js';
+
+const mintA = Keypair.generate().publicKey.toBase58();
+const mintB = Keypair.generate().publicKey.toBase58();
+
+describe('request schemas', () => {
+  const app = fastify({ ajv: ajvOptions });
+
+  beforeAll(async () => {
+    app.setErrorHandler((err: any, _req, reply) => {
+      if (err.validation) return validationFailed(reply, toFieldErrors(err.validation));
+      return reply.status(500).send({ error: 'internal_error' });
+    });
+    app.post('/execute', { schema: { body: executeOrderBodySchema } }, async (req) => ({ body: req.body }));
+    app.post('/quotes', { schema: { body: quoteBodySchema } }, async (req) => ({ body: req.body }));
+    await app.ready();
+  });
+  afterAll(() => app.close());
+
+  async function post(url: string, payload: any) {
+    const res = await app.inject({ method: 'POST', url, payload });
+    return { status: res.statusCode, body: res.json() };
+  }
+
+  it('accepts a valid market order and applies defaults', async () => {
+    const res = await post('/execute', { token_in: mintA, token_out: mintB, amount_in: 1000, slippage: 1 });
+    expect(res.status).toBe(200);
+    expect(res.body.body).toEqual({ type: 'market', token_in: mintA, token_out: mintB, amount_in: '1000', slippage: 1 });
+  });
+
+  it('accepts a user_id from older clients', async () => {
+    const res = await post('/execute', { token_in: mintA, token_out: mintB, amount_in: '1000', user_id: 'u1' });
+    expect(res.status).toBe(200);
+  });
+
+  it('lists every failing field', async () => {
+    const res = await post('/execute', { token_in: 'not-a-mint', token_out: mintB, amount_in: '-5', slippage: 500, extra: true });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('validation_failed');
+    const fields = res.body.details.map((d: any) => d.field).sort();
+    expect(fields).toEqual(['amount_in', 'extra', 'slippage', 'token_in']);
+    expect(res.body.details).toContainEqual({ field: 'token_in', message: 'must be a base58 mint address (or "SOL")' });
+  });
+
+  it('rejects decimal base-unit amounts on quotes', async () => {
+    const res = await post('/quotes', { token_in: mintA, token_out: mintB, amount_in: '1.5' });
+    expect(res.body.details).toEqual([{ field: 'amount_in', message: 'must be a positive integer string in base units' }]);
+  });
+
+  it('requires the fields of each order type', async () => {
+    const limit = await post('/execute', { type: 'limit', token_in: mintA, token_out: mintB, amount_in: '10' });
+    expect(limit.body.details).toEqual([{ field: 'limit_price', message: 'is required' }]);
+    const twap = await post('/execute', { type: 'twap', token_in: mintA, token_out: mintB, amount_in: '10', slices: 1, duration: 60 });
+    expect(twap.body.details.map((d: any) => d.field)).toEqual(['slices']);
+    const quoted = await post('/execute', { quoteId: 'q1' });
+    expect(quoted.status).toBe(200);
+    const quotedLimit = await post('/execute', { type: 'limit', quoteId: 'q1', limit_price: '1' });
+    expect(quotedLimit.body.details).toEqual([{ field: 'type', message: 'must be market when quoteId is given' }]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import BN from 'bn.js';
+import { Keypair, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import { AccountLayout } from '@solana/spl-token';
+import { simulateSwapTransaction, preflightSwap, describeSimulation } from '../src/execution/simulation.js';
+
+const owner = Keypair.generate().publicKey;
+const mint = Keypair.generate().publicKey;
+
+function tokenAccount(amount: bigint) {
+  const data = Buffer.alloc(AccountLayout.span);
+  AccountLayout.encode({
+    mint,
+    owner,
+    amount,
+    delegateOption: 0,
+    delegate: owner,
+    state: 1,
+    isNativeOption: 0,
+    isNative: 0n,
+    delegatedAmount: 0n,
+    closeAuthorityOption: 0,
+    closeAuthority: owner
+  }, data);
+  return data;
+}
+
+function swapTx() {
+  const message = new TransactionMessage({ payerKey: owner, recentBlockhash: Keypair.generate().publicKey.toBase58(), instructions: [] }).compileToV0Message();
+  return new VersionedTransaction(message);
+}
+
+/** A connection whose token_out account holds `before` now and `after` in the simulation */
+function fakeConn(before: bigint | null, value: { err?: any; logs?: string[]; after?: bigint | null }) {
+  const calls: any[] = [];
+  const conn: any = {
+    getAccountInfo: async () => (before === null ? null : { data: tokenAccount(before) }),
+    simulateTransaction: async (tx: any, opts: any) => {
+      calls.push({ tx, opts });
+      const account = value.after == null ? null : { data: [tokenAccount(value.after).toString('base64'), 'base64'] };
+      return { value: { err: value.err ?? null, logs: value.logs ?? [], unitsConsumed: 42_000, accounts: [account] } };
+    }
+  };
+  return { conn, calls };
+}
+
+describe('swap simulation', () => {
+  it('reports the change of the token_out balance and compute units', async () => {
+    const { conn, calls } = fakeConn(1_000n, { after: 1_750n });
+    const sim = await simulateSwapTransaction(conn, swapTx(), { owner, tokenOut: mint.toBase58() });
+
+    expect(sim.ok).toBe(true);
+    expect(sim.outputChangeBn!.eq(new BN(750))).toBe(true);
+    expect(describeSimulation(sim)).toEqual({ ok: true, unitsConsumed: 42_000, outputChange: '750' });
+    expect(calls[0].opts).toMatchObject({ sigVerify: false, replaceRecentBlockhash: true });
+    expect(calls[0].opts.accounts.addresses).toHaveLength(1);
+  });
+
+  it('counts a token_out account the swap creates from zero', async () => {
+    const { conn } = fakeConn(null, { after: 500n });
+    const sim = await simulateSwapTransaction(conn, swapTx(), { owner, tokenOut: mint.toBase58() });
+    expect(sim.outputChangeBn!.toString()).toBe('500');
+  });
+
+  it('fails pre-flight with the code the program logs point at', async () => {
+    const slippage = fakeConn(0n, { err: { InstructionError: [2, { Custom: 6001 }] }, logs: ['Program log: Error: exceeds desired slippage limit'] });
+    await expect(preflightSwap(slippage.conn, swapTx(), { owner, tokenOut: mint.toBase58(), venue: 'raydium' }))
+      .rejects.toMatchObject({ code: 'slippage_exceeded' });
+
+    const other = fakeConn(0n, { err: { InstructionError: [0, 'InvalidAccountData'] } });
+    await expect(preflightSwap(other.conn, swapTx(), { owner, tokenOut: mint.toBase58(), venue: 'meteora' }))
+      .rejects.toMatchObject({ code: 'simulation_failed', retryable: false });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import BN from 'bn.js';
+import { Keypair } from '@solana/web3.js';
+
+// config.ts needs a wallet and mints at import time
+process.env.WALLET_PRIVATE_KEY_JSON ??= JSON.stringify(Array.from(Keypair.generate().secretKey));
+process.env.USDC_DEV_MINT ??= Keypair.generate().publicKey.toBase58();
+process.env.TEST_DEV_MINT ??= Keypair.generate().publicKey.toBase58();
+
+let split: any;
+beforeAll(async () => {
+  split = await import('../src/router/splitRouter.js');
+});
+
+// constant-product pool quote (no fee) so price impact grows with size
+function cpmmQuoter(dex: string, reserveIn: number, reserveOut: number) {
+  return {
+    dex,
+    quote: async (amt: BN) => {
+      const out = amt.mul(new BN(reserveOut)).div(new BN(reserveIn).add(amt));
+      return { dex, outAmountBn: out, details: {} };
+    }
+  };
+}
+
+describe('splitRouter.optimizeSplit', () => {
+  it('splits across two equal pools when a single fill would suffer price impact', async () => {
+    const route = await split.optimizeSplit(new BN(1_000_000), [
+      cpmmQuoter('meteora', 1_000_000, 1_000_000),
+      cpmmQuoter('raydium', 1_000_000, 1_000_000)
+    ], 10);
+    expect(route.legs).toHaveLength(2);
+    expect(route.legs[0].amountInBn.toString()).toBe('500000');
+    expect(route.outAmountBn.gt(route.bestSingle.outAmountBn)).toBe(true);
+    expect(route.improvementBps).toBeGreaterThan(0);
+  });
+
+  it('keeps a single leg when one pool is far deeper', async () => {
+    const route = await split.optimizeSplit(new BN(1_000), [
+      cpmmQuoter('meteora', 1_000_000_000, 1_000_000_000),
+      cpmmQuoter('raydium', 1_000, 1_000)
+    ], 10);
+    expect(route.legs).toHaveLength(1);
+    expect(route.legs[0].dex).toBe('meteora');
+    expect(route.improvementBn.isZero()).toBe(true);
+  });
+
+  it('ignores allocations a venue cannot quote', async () => {
+    const failing = { dex: 'raydium', quote: async () => { throw new Error('pool unavailable'); } };
+    const route = await split.optimizeSplit(new BN(10_000), [cpmmQuoter('meteora', 1_000_000, 1_000_000), failing], 25);
+    expect(route.legs).toHaveLength(1);
+    expect(route.legs[0].dex).toBe('meteora');
+  });
+});
+
+describe('splitRouter.legMinOut', () => {
+  it('shares a firm min out across legs by their estimates, never below the total', () => {
+    const legs = [
+      { dex: 'meteora', amountInBn: new BN(600), outAmountBn: new BN(601), details: {} },
+      { dex: 'raydium', amountInBn: new BN(400), outAmountBn: new BN(398), details: {} }
+    ];
+    const route = { legs, outAmountBn: new BN(999), bestSingle: { dex: 'meteora', outAmountBn: new BN(990) }, improvementBn: new BN(9), improvementBps: 90 };
+    const shares = legs.map(l => split.legMinOut(new BN(985), l, route));
+    expect(shares.map((s: BN) => s.toString())).toEqual(['593', '393']);
+    expect(shares[0].add(shares[1]).gte(new BN(985))).toBe(true);
+  });
+});
+
+describe('splitRouter.getBestSplitQuote', () => {
+  it('loads each pool once and quotes every allocation from the loaded state', async () => {
+    const adapters = await import('../src/router/adapters/index.js');
+    const loads: string[] = [];
+    const stub = (name: string) => ({
+      name,
+      supportsPair: () => true,
+      quote: async () => { throw new Error('per-amount quotes should not be used'); },
+      loadQuoter: async (ctx: any) => {
+        loads.push(ctx.poolId);
+        return (amt: BN) => ({ dex: name, poolId: ctx.poolId, outAmountBn: amt.mul(new BN(1_000_000)).div(new BN(1_000_000).add(amt)), details: {} });
+      },
+      buildTransaction: async () => { throw new Error('not used'); },
+      execute: async () => { throw new Error('not used'); }
+    });
+    adapters.registerAdapter(stub('stubA'));
+    adapters.registerAdapter(stub('stubB'));
+    try {
+      const route = await split.getBestSplitQuote({
+        conn: {} as any,
+        amountInBn: new BN(1_000_000),
+        tokenIn: 'A',
+        tokenOut: 'B',
+        pools: [{ venue: 'stubA', poolId: 'pool-a', mintA: 'A', mintB: 'B' }, { venue: 'stubB', poolId: 'pool-b', mintA: 'A', mintB: 'B' }]
+      });
+      expect(route.legs.map((l: any) => l.poolId)).toEqual(['pool-a', 'pool-b']);
+      expect(loads.sort()).toEqual(['pool-a', 'pool-b']);
+    } finally {
+      adapters.unregisterAdapter('stubA');
+      adapters.unregisterAdapter('stubB');
+    }
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { sseFrame, lastEventId, openSseStream, failSseStream, SSE_HEARTBEAT_MS } from '../src/api/sse.js';
+
+function fakeResponse() {
+  const res: any = new EventEmitter();
+  res.chunks = [] as string[];
+  res.writeHead = vi.fn();
+  res.write = (chunk: string) => res.chunks.push(chunk);
+  res.end = vi.fn((chunk?: string) => {
+    if (chunk) res.chunks.push(chunk);
+    res.writableEnded = true;
+  });
+  return res;
+}
+
+describe('sse', () => {
+  it('uses the event seq as the SSE id', () => {
+    expect(sseFrame(JSON.stringify({ status: 'routing', seq: 4 }))).toBe('id: 4\ndata: {"status":"routing","seq":4}\n\n');
+    expect(sseFrame(JSON.stringify({ status: 'pending' }))).toBe('data: {"status":"pending"}\n\n');
+  });
+
+  it('resumes from Last-Event-ID, falling back to the query parameter', () => {
+    expect(lastEventId('7', undefined)).toBe(7);
+    expect(lastEventId(undefined, '3')).toBe(3);
+    expect(lastEventId('nope', undefined)).toBeUndefined();
+  });
+
+  it('streams events, sends heartbeats and reports the close', () => {
+    vi.useFakeTimers();
+    const res = fakeResponse();
+    const onClose = vi.fn();
+    const sink = openSseStream(res, onClose);
+    expect(res.writeHead.mock.calls[0][1]['content-type']).toMatch(/^text\/event-stream/);
+
+    sink.send(JSON.stringify({ status: 'confirmed', seq: 9 }));
+    vi.advanceTimersByTime(SSE_HEARTBEAT_MS);
+    expect(res.chunks.slice(1)).toEqual(['id: 9\ndata: {"status":"confirmed","seq":9}\n\n', ': heartbeat\n\n']);
+
+    res.emit('close');
+    expect(onClose).toHaveBeenCalledWith(sink);
+    expect(sink.readyState).not.toBe(sink.OPEN);
+    vi.advanceTimersByTime(SSE_HEARTBEAT_MS);
+    expect(res.chunks).toHaveLength(3);
+    vi.useRealTimers();
+  });
+
+  it('ends a stream whose setup failed with an error event', () => {
+    vi.useFakeTimers();
+    const res = fakeResponse();
+    openSseStream(res, vi.fn());
+    res.headersSent = true;
+    failSseStream(res);
+    expect(res.chunks.at(-1)).toBe('event: error\ndata: {"error":"internal_error"}\n\n');
+    failSseStream(res);
+    expect(res.end).toHaveBeenCalledTimes(1);
+    res.emit('close');
+    vi.useRealTimers();
+
+    // a failure before the headers went out still answers as an event stream
+    const early = fakeResponse();
+    failSseStream(early);
+    expect(early.writeHead.mock.calls[0][0]).toBe(500);
+    expect(early.end).toHaveBeenCalledOnce();
+  });
+});
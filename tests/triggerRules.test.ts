@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import BN from 'bn.js';
+import { evaluateTrigger, limitPriceReached, isTriggerOrderType } from '../src/triggers/triggerRules.js';
+
+const amountIn = new BN('1000000');
+
+describe('trigger rules', () => {
+  it('limit fires only at or above the limit price', () => {
+    expect(limitPriceReached(new BN('995000'), amountIn, '0.995')).toBe(true);
+    expect(limitPriceReached(new BN('994999'), amountIn, '0.995')).toBe(false);
+  });
+
+  it('stop_loss fires when the price falls to or below the trigger', () => {
+    expect(evaluateTrigger('stop_loss', new BN('900000'), amountIn, '0.95')).toBe('price_at_or_below_stop');
+    expect(evaluateTrigger('stop_loss', new BN('950000'), amountIn, '0.95')).toBe('price_at_or_below_stop');
+    expect(evaluateTrigger('stop_loss', new BN('960000'), amountIn, '0.95')).toBeNull();
+  });
+
+  it('take_profit fires when the price rises to or above the trigger', () => {
+    expect(evaluateTrigger('take_profit', new BN('1100000'), amountIn, '1.05')).toBe('price_at_or_above_take_profit');
+    expect(evaluateTrigger('take_profit', new BN('1040000'), amountIn, '1.05')).toBeNull();
+  });
+
+  it('recognises trigger order types', () => {
+    expect(isTriggerOrderType('stop_loss')).toBe(true);
+    expect(isTriggerOrderType('take_profit')).toBe(true);
+    expect(isTriggerOrderType('limit')).toBe(false);
+  });
+});
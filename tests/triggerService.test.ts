@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const { parked, pages, triggered } = vi.hoisted(() => {
+  // 240 old limit orders that never fill, then armed stop losses created after them
+  const parked = [
+    ...Array.from({ length: 240 }, (_, i) => ({ id: `limit-${String(i).padStart(3, '0')}`, type: 'limit', status: 'waiting', limit_price: '2', trigger_price: null })),
+    ...Array.from({ length: 10 }, (_, i) => ({ id: `stop-${i}`, type: 'stop_loss', status: 'armed', limit_price: null, trigger_price: '0.95' }))
+  ].map((o, i) => ({ ...o, user_id: null, token_in: 'A', token_out: 'B', amount_in: '1000000', slippage: 1, cursor_ts: new Date(1_700_000_000_000 + i * 1000).toISOString() }));
+  return { parked, pages: [] as number[], triggered: [] as string[] };
+});
+
+vi.mock('../src/config/db.js', () => ({
+  getParkedOrders: async (statuses: string[], limit: number, after?: { createdAt: string; id: string } | null) => {
+    const rows = parked
+      .filter(o => statuses.includes(o.status))
+      .filter(o => !after || o.cursor_ts > after.createdAt || (o.cursor_ts === after.createdAt && o.id > after.id))
+      .slice(0, limit);
+    pages.push(rows.length);
+    return rows;
+  },
+  transitionOrderStatus: async () => true,
+  markOrderTriggered: async (id: string) => {
+    triggered.push(id);
+    return true;
+  }
+}));
+vi.mock('../src/router/dexRouter.js', () => ({
+  envUseMock: () => false,
+  // a price of 0.9: below every stop, far below every limit
+  getBestQuote: async (p: any) => ({ dex: 'stub', outAmountBn: p.amountInBn.muln(9).divn(10) })
+}));
+vi.mock('../src/router/multiHop.js', () => ({ getBestMultiHopQuote: async () => null }));
+vi.mock('../src/router/poolRegistry.js', () => ({
+  getPoolRegistry: async () => [],
+  directPools: () => [{ venue: 'stub' }]
+}));
+vi.mock('../src/websocket/wsManager.js', () => ({ publishOrderUpdate: async () => {} }));
+vi.mock('../src/queue/orderQueue.js', () => ({ enqueueOrderExecution: async () => {} }));
+
+import { runTriggerCycle } from '../src/triggers/triggerService.js';
+
+describe('runTriggerCycle', () => {
+  it('checks every parked order a page at a time, so stop losses behind a page of limits still fire', async () => {
+    const res = await runTriggerCycle({ conn: {} as any, queue: {} as any, batchSize: 100 });
+    expect(pages).toEqual([100, 100, 50]);
+    expect(res).toEqual({ checked: 250, fired: 10 });
+    expect(triggered).toEqual(parked.filter(o => o.type === 'stop_loss').map(o => o.id));
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import RedisMock from 'ioredis-mock';
+
+const { parents, counted, statusUpdates, events } = vi.hoisted(() => ({
+  parents: new Map<string, any>(),
+  counted: new Set<string>(),
+  statusUpdates: [] as { id: string; status: string; opts: any }[],
+  events: [] as { id: string; payload: any }[]
+}));
+
+vi.mock('ioredis', () => ({ default: RedisMock, Redis: RedisMock }));
+vi.mock('../src/config/db.js', () => ({
+  insertOrder: async () => ({ rows: [] }),
+  updateOrderStatus: async (id: string, status: string, opts: any) => {
+    statusUpdates.push({ id, status, opts });
+    if (parents.has(id)) parents.get(id).status = status;
+    return { rows: [] };
+  },
+  // the compare-and-set of the real query: a child counts towards its parent once
+  applyTwapSliceResult: async (parentId: string, r: any) => {
+    const p = parents.get(parentId);
+    if (!p) return null;
+    const first = !counted.has(r.childId);
+    if (first) {
+      counted.add(r.childId);
+      if (r.filled) {
+        p.filled_amount_in = (BigInt(p.filled_amount_in) + BigInt(r.amountIn)).toString();
+        p.filled_amount_out = (BigInt(p.filled_amount_out) + BigInt(r.amountOut)).toString();
+        p.slices_completed++;
+      } else {
+        p.slices_failed++;
+      }
+    }
+    return { ...p, counted: first };
+  }
+}));
+vi.mock('../src/websocket/wsManager.js', () => ({
+  publishOrderUpdate: async (id: string, payload: any) => {
+    events.push({ id, payload });
+  }
+}));
+
+import { planTwapSlices, recordTwapSliceResult } from '../src/orders/twap.js';
+
+describe('planTwapSlices', () => {
+  it('splits the amount exactly, spreading the remainder over the first slices', () => {
+    const plan = planTwapSlices('1003', 4, 60_000);
+    expect(plan.map(s => s.amountIn)).toEqual(['251', '251', '251', '250']);
+    const sum = plan.reduce((acc, s) => acc + BigInt(s.amountIn), 0n);
+    expect(sum).toBe(1003n);
+  });
+
+  it('spaces slices evenly across the duration starting immediately', () => {
+    const plan = planTwapSlices('1000', 4, 60_000);
+    expect(plan.map(s => s.delayMs)).toEqual([0, 15_000, 30_000, 45_000]);
+    expect(plan.map(s => s.index)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('rejects amounts smaller than the slice count', () => {
+    expect(() => planTwapSlices('3', 4, 1000)).toThrow(/too small/);
+  });
+});
+
+describe('recordTwapSliceResult', () => {
+  beforeEach(() => {
+    parents.clear();
+    counted.clear();
+    statusUpdates.length = 0;
+    events.length = 0;
+    parents.set('parent', { filled_amount_in: '0', filled_amount_out: '0', slices_completed: 0, slices_failed: 0, twap_slices: 3, status: 'running' });
+  });
+
+  const slice = (i: number, filled: boolean) => ({
+    childId: `child-${i}`,
+    sliceIndex: i,
+    filled,
+    amountIn: '100',
+    amountOut: filled ? String(200 + i) : null,
+    error: filled ? null : 'slippage_exceeded'
+  });
+
+  it('aggregates filled slices and confirms the parent at the average price', async () => {
+    for (const i of [0, 1, 2]) await recordTwapSliceResult('parent', slice(i, true));
+
+    expect(events.map(e => e.payload.status)).toEqual(['slice_filled', 'slice_filled', 'slice_filled', 'confirmed']);
+    expect(events[3].payload.summary).toMatchObject({ slicesCompleted: 3, slicesFailed: 0, filledAmountIn: '300', filledAmountOut: '603', averagePrice: '2.01' });
+    expect(statusUpdates).toEqual([{ id: 'parent', status: 'confirmed', opts: expect.objectContaining({ executedPrice: '2.01', error: null }) }]);
+  });
+
+  it('ends partially_filled when some slices fail, and failed when all do', async () => {
+    await recordTwapSliceResult('parent', slice(0, true));
+    await recordTwapSliceResult('parent', slice(1, false));
+    expect(statusUpdates).toHaveLength(0);
+    await recordTwapSliceResult('parent', slice(2, false));
+    expect(events.map(e => e.payload.status)).toEqual(['slice_filled', 'slice_failed', 'slice_failed', 'partially_filled']);
+    expect(statusUpdates[0]).toMatchObject({ status: 'partially_filled', opts: { executedPrice: '2', error: '2 of 3 slices failed' } });
+
+    parents.set('parent', { filled_amount_in: '0', filled_amount_out: '0', slices_completed: 0, slices_failed: 0, twap_slices: 1, status: 'running' });
+    counted.clear();
+    await recordTwapSliceResult('parent', slice(0, false));
+    expect(statusUpdates[1]).toMatchObject({ status: 'failed', opts: { executedPrice: null } });
+  });
+
+  it('counts a slice reported twice only once', async () => {
+    await recordTwapSliceResult('parent', slice(0, true));
+    // the slice job retried after its swap confirmed
+    await recordTwapSliceResult('parent', slice(0, true));
+    expect(parents.get('parent')).toMatchObject({ filled_amount_in: '100', slices_completed: 1 });
+    expect(events).toHaveLength(1);
+
+    await recordTwapSliceResult('parent', slice(1, true));
+    await recordTwapSliceResult('parent', slice(2, true));
+    await recordTwapSliceResult('parent', slice(2, true));
+    expect(statusUpdates.map(u => u.status)).toEqual(['confirmed']);
+    expect(events.filter(e => e.payload.status === 'confirmed')).toHaveLength(1);
+  });
+
+  it('finishes the parent on a repeat if the attempt that counted the last slice did not', async () => {
+    for (const i of [0, 1, 2]) counted.add(`child-${i}`);
+    Object.assign(parents.get('parent'), { filled_amount_in: '300', filled_amount_out: '600', slices_completed: 3 });
+    await recordTwapSliceResult('parent', slice(2, true));
+    expect(events.map(e => e.payload.status)).toEqual(['confirmed']);
+    expect(statusUpdates[0].status).toBe('confirmed');
+  });
+});
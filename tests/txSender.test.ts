@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import bs58 from 'bs58';
+import { sendAndTrack, waitForFinalized, isTransactionSignature } from '../src/execution/txSender.js';
+import { classifyError } from '../src/utils/errors.js';
+
+beforeAll(() => {
+  process.env.TX_POLL_MS = '1';
+  process.env.TX_REBROADCAST_MS = '1';
+});
+
+const signature = bs58.encode(Buffer.alloc(64, 9));
+
+/** A connection that reports `statuses` one poll at a time (the last one repeats) */
+function fakeConn(statuses: any[], o: { blockHeight?: () => number; logs?: string[] } = {}) {
+  let poll = 0;
+  return {
+    sendRawTransaction: vi.fn(async () => signature),
+    getSignatureStatuses: async (sigs: string[]) => {
+      const status = statuses[Math.min(poll++, statuses.length - 1)];
+      return { value: sigs.map(() => status) };
+    },
+    getBlockHeight: async () => o.blockHeight?.() ?? 100,
+    getTransaction: async () => ({ meta: { logMessages: o.logs ?? [] } })
+  } as any;
+}
+
+describe('txSender', () => {
+  it('rebroadcasts until the transaction confirms and reports each commitment', async () => {
+    const conn = fakeConn([null, null, { slot: 5, err: null, confirmationStatus: 'processed' }, { slot: 5, err: null, confirmationStatus: 'confirmed' }]);
+    const seen: string[] = [];
+    const res = await sendAndTrack(conn, Buffer.from('tx'), { signature, lastValidBlockHeight: 200, onStatus: (c) => { seen.push(c); } });
+
+    expect(res).toEqual({ outcome: 'confirmed', slot: 5 });
+    expect(seen).toEqual(['processed', 'confirmed']);
+    expect(conn.sendRawTransaction.mock.calls.length).toBeGreaterThan(1);
+    // only the first send goes through the RPC's preflight
+    expect(conn.sendRawTransaction.mock.calls[1][1]).toEqual({ skipPreflight: true, maxRetries: 0 });
+  });
+
+  it('detects an on-chain error and attaches the program logs', async () => {
+    const conn = fakeConn([{ slot: 7, err: { InstructionError: [1, { Custom: 6004 }] }, confirmationStatus: 'confirmed' }], { logs: ['Program log: Error: ExceededSlippage'] });
+    const res = await sendAndTrack(conn, Buffer.from('tx'), { signature, lastValidBlockHeight: 200 });
+
+    expect(res.outcome).toBe('failed');
+    const err = Object.assign(new Error('failed on-chain'), { logs: (res as any).logs });
+    expect(classifyError(err).code).toBe('slippage_exceeded');
+  });
+
+  it('gives up once the chain passes lastValidBlockHeight', async () => {
+    let height = 195;
+    const conn = fakeConn([null], { blockHeight: () => height++ });
+    const res = await sendAndTrack(conn, Buffer.from('tx'), { signature, lastValidBlockHeight: 200 });
+    expect(res).toEqual({ outcome: 'expired', slot: null });
+  });
+
+  it('waits for every signature to be finalized', async () => {
+    const conn = fakeConn([{ slot: 5, err: null, confirmationStatus: 'finalized' }]);
+    expect(await waitForFinalized(conn, [signature, signature])).toBe(true);
+    expect(isTransactionSignature(signature)).toBe(true);
+    expect(isTransactionSignature('MOCK-1700000000000')).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as crypto from 'crypto';
+
+const deliveries = new Map<string, any>();
+vi.mock('../src/config/db.js', () => ({
+  getWebhookDelivery: async (id: string) => deliveries.get(id) ?? null,
+  recordWebhookAttempt: async (id: string, status: string, opts: any) => {
+    const d = deliveries.get(id);
+    Object.assign(d, { status, attempts: d.attempts + 1, last_status_code: opts.statusCode ?? null, last_error: opts.error ?? null });
+  }
+}));
+
+// no DNS in tests: example.test is public, localhost is loopback
+vi.mock('dns/promises', () => ({
+  lookup: async (host: string) => {
+    const hosts: Record<string, string> = { 'example.test': '93.184.216.34', localhost: '127.0.0.1' };
+    if (!hosts[host]) throw new Error(`getaddrinfo ENOTFOUND ${host}`);
+    return [{ address: hosts[host], family: 4 }];
+  }
+}));
+
+import { processWebhookJob, webhookHeaders, callbackUrlError, isPublicAddress, enqueueWebhook } from '../src/webhooks/webhooks.js';
+
+function job(deliveryId: string, attemptsMade: number) {
+  return { data: { deliveryId }, attemptsMade, opts: { attempts: 3 } } as any;
+}
+
+describe('webhooks', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    process.env.WEBHOOK_SECRET = 'whsec-test';
+    deliveries.clear();
+    deliveries.set('o1:3', { id: 'o1:3', url: 'https://example.test/hook', payload: { id: 'o1:3', orderId: 'o1', event: { status: 'confirmed', seq: 3 } }, status: 'pending', attempts: 0 });
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('signs the timestamp and body so a receiver can verify them', () => {
+    const body = JSON.stringify({ id: 'o1:3' });
+    const h = webhookHeaders({ id: 'o1:3' }, body, 1_700_000_000_000);
+    const expected = crypto.createHmac('sha256', 'whsec-test').update(`1700000000.${body}`).digest('hex');
+    expect(h['x-webhook-id']).toBe('o1:3');
+    expect(h['x-webhook-timestamp']).toBe('1700000000');
+    expect(h['x-webhook-signature']).toBe(`v1=${expected}`);
+  });
+
+  it('posts the event and marks the delivery delivered', async () => {
+    fetchMock.mockResolvedValue({ ok: true, status: 204 });
+    await processWebhookJob(job('o1:3', 0));
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://example.test/hook');
+    expect(JSON.parse(init.body).event.status).toBe('confirmed');
+    expect(deliveries.get('o1:3')).toMatchObject({ status: 'delivered', attempts: 1, last_status_code: 204 });
+  });
+
+  it('keeps a failed delivery pending for the retry and dead-letters it after the last attempt', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 500 });
+    await expect(processWebhookJob(job('o1:3', 0))).rejects.toThrow(/500/);
+    expect(deliveries.get('o1:3')).toMatchObject({ status: 'pending', last_status_code: 500 });
+
+    await expect(processWebhookJob(job('o1:3', 2))).rejects.toThrow(/500/);
+    expect(deliveries.get('o1:3')).toMatchObject({ status: 'dead', attempts: 2 });
+
+    // a dead delivery is only sent again after an admin redelivers it
+    expect(await processWebhookJob(job('o1:3', 0))).toEqual({ skipped: true });
+  });
+
+  it('refuses to send to a host that resolves to a private, loopback or link-local address', async () => {
+    deliveries.set('o1:4', { id: 'o1:4', url: 'http://169.254.169.254/latest/meta-data', payload: { id: 'o1:4' }, status: 'pending', attempts: 0 });
+    await expect(processWebhookJob(job('o1:4', 0))).rejects.toThrow(/public address/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('skips events without a warning while WEBHOOK_SECRET is unset', async () => {
+    delete process.env.WEBHOOK_SECRET;
+    const warn = vi.spyOn(console, 'warn');
+    expect(await enqueueWebhook('o1', 'https://example.test/hook', { seq: 4 })).toBeNull();
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('webhook targets', () => {
+  afterEach(() => {
+    delete process.env.WEBHOOK_ALLOWED_HOSTS;
+  });
+
+  it('only counts public addresses as public', () => {
+    for (const a of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+      expect(isPublicAddress(a), a).toBe(false);
+    }
+    for (const a of ['8.8.8.8', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8']) {
+      expect(isPublicAddress(a), a).toBe(true);
+    }
+  });
+
+  it('rejects literal and named local targets unless the host is allowlisted', async () => {
+    expect(await callbackUrlError('http://127.0.0.1:6379/')).toBe('must resolve to a public address');
+    expect(await callbackUrlError('http://[::1]/hook')).toBe('must resolve to a public address');
+    expect(await callbackUrlError('http://localhost:3000/hook')).toBe('must resolve to a public address');
+    expect(await callbackUrlError('https://8.8.8.8/hook')).toBeNull();
+
+    process.env.WEBHOOK_ALLOWED_HOSTS = 'receiver.internal, localhost';
+    expect(await callbackUrlError('http://localhost:3000/hook')).toBeNull();
+  });
+});
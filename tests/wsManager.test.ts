@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import RedisMock from 'ioredis-mock';
+
+vi.mock('ioredis', () => ({ default: RedisMock, Redis: RedisMock }));
+vi.mock('../src/webhooks/webhooks.js', () => ({ enqueueWebhook: async () => null }));
+
+// in-memory order_events log and order owners
+const events = new Map<string, { seq: number; payload: any }[]>();
+const owners = new Map<string, string>();
+// while set, a replay's log read (taken at call time) waits for it, as a slow query would
+let replayGate: Promise<void> | null = null;
+vi.mock('../src/config/db.js', () => ({
+  getOrderNotifyInfo: async (id: string) => ({ user_id: owners.get(id) ?? null, callback_url: null }),
+  appendOrderEvent: async (id: string, payload: any) => {
+    const log = events.get(id) ?? [];
+    log.push({ seq: log.length + 1, payload });
+    events.set(id, log);
+    return log.length;
+  },
+  getOrderEvents: async (id: string, afterSeq: number, limit: number) => {
+    const page = (events.get(id) ?? []).filter(e => e.seq > afterSeq).slice(0, limit);
+    if (replayGate) await replayGate;
+    return page;
+  }
+}));
+
+import {
+  pub, subscribeSocket, unsubscribeSocket, subscribeUserSocket, unsubscribeUserSocket, publishOrderUpdate
+} from '../src/websocket/wsManager.js';
+
+function fakeSocket() {
+  const received: any[] = [];
+  return { readyState: 1, OPEN: 1, received, send: (message: string) => received.push(JSON.parse(message)) };
+}
+
+// Redis subscribe and message delivery are asynchronous
+const settle = () => new Promise(r => setTimeout(r, 20));
+
+describe('wsManager', () => {
+  beforeEach(() => {
+    events.clear();
+    owners.clear();
+    replayGate = null;
+  });
+
+  function gateReplay() {
+    let open!: () => void;
+    replayGate = new Promise<void>(r => { open = r; });
+    return () => { replayGate = null; open(); };
+  }
+
+  it("copies an order's events to its owner's feed only", async () => {
+    owners.set('o1', 'alice');
+    const alice = fakeSocket();
+    const bob = fakeSocket();
+    subscribeUserSocket('alice', alice);
+    subscribeUserSocket('bob', bob);
+    await settle();
+
+    await publishOrderUpdate('o1', { status: 'routing' });
+    await settle();
+    expect(alice.received).toEqual([{ orderId: 'o1', status: 'routing', seq: 1 }]);
+    expect(bob.received).toEqual([]);
+
+    unsubscribeUserSocket('alice', alice);
+    unsubscribeUserSocket('bob', bob);
+    await settle();
+    await publishOrderUpdate('o1', { status: 'confirmed' });
+    await settle();
+    expect(alice.received).toHaveLength(1);
+  });
+
+  it('relays several orders to one socket and stops only the unsubscribed one', async () => {
+    const ws = fakeSocket();
+    const other = fakeSocket();
+    await subscribeSocket('a', ws);
+    await subscribeSocket('b', ws);
+    await subscribeSocket('a', other);
+    await settle();
+
+    await publishOrderUpdate('a', { status: 'routing' });
+    await publishOrderUpdate('b', { status: 'routing' });
+    await settle();
+    expect(ws.received).toEqual([{ status: 'routing', seq: 1 }, { status: 'routing', seq: 1 }]);
+
+    unsubscribeSocket('a', ws);
+    await publishOrderUpdate('a', { status: 'confirmed' });
+    await publishOrderUpdate('b', { status: 'confirmed' });
+    await settle();
+    expect(ws.received.slice(2)).toEqual([{ status: 'confirmed', seq: 2 }]);
+    // the order's channel stays subscribed while another socket follows it
+    expect(other.received).toEqual([{ status: 'routing', seq: 1 }, { status: 'confirmed', seq: 2 }]);
+
+    unsubscribeSocket('a', other);
+    unsubscribeSocket('b', ws);
+    await settle();
+    await publishOrderUpdate('a', { status: 'finalized' });
+    await publishOrderUpdate('b', { status: 'finalized' });
+    await settle();
+    expect(ws.received).toHaveLength(3);
+    expect(other.received).toHaveLength(2);
+  });
+
+  it('replays the log before live events and holds live events arriving during the replay', async () => {
+    await publishOrderUpdate('r1', { status: 'pending' });
+    await publishOrderUpdate('r1', { status: 'routing' });
+    const ws = fakeSocket();
+    const release = gateReplay();
+    const subscribed = subscribeSocket('r1', ws);
+    await settle();
+
+    await publishOrderUpdate('r1', { status: 'submitted' });
+    await settle();
+    expect(ws.received).toEqual([]);
+
+    release();
+    await subscribed;
+    await publishOrderUpdate('r1', { status: 'confirmed' });
+    await settle();
+    expect(ws.received).toEqual([
+      { status: 'pending', seq: 1, replay: true },
+      { status: 'routing', seq: 2, replay: true },
+      { status: 'submitted', seq: 3 },
+      { status: 'confirmed', seq: 4 }
+    ]);
+    unsubscribeSocket('r1', ws);
+  });
+
+  it('drops held live events the replay already sent', async () => {
+    await publishOrderUpdate('r2', { status: 'pending' });
+    await publishOrderUpdate('r2', { status: 'routing' });
+    const ws = fakeSocket();
+    const release = gateReplay();
+    const subscribed = subscribeSocket('r2', ws);
+    await settle();
+
+    // seq 2 is in the replayed page; an event whose log append failed has no seq and is always sent
+    await pub.publish('order:r2', JSON.stringify({ status: 'routing', seq: 2 }));
+    await pub.publish('order:r2', JSON.stringify({ status: 'submitted' }));
+    await settle();
+    release();
+    await subscribed;
+    expect(ws.received).toEqual([
+      { status: 'pending', seq: 1, replay: true },
+      { status: 'routing', seq: 2, replay: true },
+      { status: 'submitted' }
+    ]);
+    unsubscribeSocket('r2', ws);
+  });
+
+  it('resumes the replay after lastSeq', async () => {
+    await publishOrderUpdate('r3', { status: 'pending' });
+    await publishOrderUpdate('r3', { status: 'routing' });
+    await publishOrderUpdate('r3', { status: 'submitted' });
+    const ws = fakeSocket();
+    await subscribeSocket('r3', ws, { lastSeq: 2 });
+    await settle();
+    await publishOrderUpdate('r3', { status: 'confirmed' });
+    await settle();
+    expect(ws.received).toEqual([{ status: 'submitted', seq: 3, replay: true }, { status: 'confirmed', seq: 4 }]);
+    unsubscribeSocket('r3', ws);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createWsToken, verifyWsToken, assertWsSecretsConfigured } from '../src/auth/wsTokens.js';
+
+const env = { ...process.env };
+
+describe('wsTokens', () => {
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('round-trips order and user scopes and rejects tampering', () => {
+    process.env.WS_SECRETS = 'k1:first-secret-0123456789';
+    const order = createWsToken({ orderId: 'o1' });
+    expect(verifyWsToken(order)).toMatchObject({ orderId: 'o1' });
+    expect(verifyWsToken(createWsToken({ userId: 'u1' }))).toMatchObject({ userId: 'u1' });
+
+    const [kid, , sig] = order.split('.');
+    const forged = Buffer.from(JSON.stringify({ orderId: 'o2', exp: 4e9 })).toString('base64url');
+    expect(verifyWsToken(`${kid}.${forged}.${sig}`)).toBeNull();
+    expect(verifyWsToken('o1:abcdef')).toBeNull();
+  });
+
+  it('expires tokens after WS_TOKEN_TTL_SEC', () => {
+    process.env.WS_SECRETS = 'k1:first-secret-0123456789';
+    process.env.WS_TOKEN_TTL_SEC = '60';
+    const now = Date.now();
+    const token = createWsToken({ orderId: 'o1' }, now);
+    expect(verifyWsToken(token, now + 59_000)).not.toBeNull();
+    expect(verifyWsToken(token, now + 60_000)).toBeNull();
+  });
+
+  it('verifies with every listed secret and signs with the first', () => {
+    process.env.WS_SECRETS = 'old:old-secret-0123456789';
+    const old = createWsToken({ orderId: 'o1' });
+    process.env.WS_SECRETS = 'new:new-secret-0123456789,old:old-secret-0123456789';
+    expect(verifyWsToken(old)).toMatchObject({ orderId: 'o1' });
+    expect(createWsToken({ orderId: 'o1' }).startsWith('new.')).toBe(true);
+    process.env.WS_SECRETS = 'new:new-secret-0123456789';
+    expect(verifyWsToken(old)).toBeNull();
+  });
+
+  it('refuses to start in production without a secret', () => {
+    delete process.env.WS_SECRETS;
+    delete process.env.WS_SECRET;
+    process.env.NODE_ENV = 'production';
+    expect(() => assertWsSecretsConfigured()).toThrow(/must be set/);
+    process.env.WS_SECRET = 'short';
+    expect(() => assertWsSecretsConfigured()).toThrow(/shorter/);
+  });
+});
@@ -86,6 +86,7 @@ vi.mock('bullmq', () => {
         // other bullmq exports might be required by imports; provide no-op placeholders
         QueueEvents: class { constructor() { } },
         Job: class { constructor() { } },
+        UnrecoverableError: class extends Error { },
     }
 })
 
@@ -94,13 +95,24 @@ vi.mock('bullmq', () => {
 // --------------------
 import { beforeAll, afterAll, describe, it, expect } from 'vitest'
 import RedisMock from 'ioredis-mock'
-import { subscribeSocket, unsubscribeSocket, publishOrderUpdate } from '../src/websocket/wsManager.js'
+import { subscribeSocket, unsubscribeSocket, subscribeUserSocket, unsubscribeUserSocket, publishOrderUpdate } from '../src/websocket/wsManager.js'
 
-// Mock DB functions to avoid Postgres connection
+// Mock DB functions to avoid Postgres connection (order_events kept in memory)
+const eventLog = new Map<string, any[]>();
 vi.mock('../src/config/db.js', () => ({
     insertOrder: async () => ({ rows: [] }),
     updateOrderStatus: async () => ({ rows: [] }),
-    setRoutingInfo: async () => ({ rows: [] })
+    setRoutingInfo: async () => ({ rows: [] }),
+    claimOrderForSubmission: async () => true,
+    getOrderExecutions: async () => [],
+    getOrderNotifyInfo: async (id: string) => ({ user_id: id.startsWith('user1-') ? 'user-1' : null, callback_url: null }),
+    appendOrderEvent: async (orderId: string, payload: any) => {
+        const events = eventLog.get(orderId) ?? [];
+        eventLog.set(orderId, events);
+        events.push({ order_id: orderId, seq: events.length + 1, status: payload.status, payload });
+        return events.length;
+    },
+    getOrderEvents: async (orderId: string, afterSeq = 0) => (eventLog.get(orderId) ?? []).filter(e => e.seq > afterSeq)
 }));
 
 // Replace ioredis with ioredis-mock in the test environment
@@ -169,6 +181,29 @@ describe('Queue + WS integration (in-memory mocked bullmq)', () => {
         unsubscribeSocket(orderId, fakeWs);
     });
 
+    it('a dry-run order ends as simulated without being submitted', async () => {
+        const orderId = 'test-dry-run-1';
+        const sent: any[] = [];
+        const fakeWs: any = { OPEN: 1, readyState: 1, send: (msg: string) => sent.push(JSON.parse(msg)) };
+        await subscribeSocket(orderId, fakeWs);
+
+        await queue.add('execute', { orderId, token_in: 'A', token_out: 'B', amount_in: '1000', slippage: 1.0, dry_run: true }, { removeOnComplete: true });
+
+        const start = Date.now();
+        while (Date.now() - start < 12000 && !sent.some(m => m.status === 'simulated' || m.status === 'failed')) {
+            await new Promise(r => setTimeout(r, 100));
+        }
+
+        const statuses = sent.map(m => m.status);
+        expect(statuses).toContain('simulated');
+        expect(statuses).not.toContain('submitted');
+        const simulated = sent.find(m => m.status === 'simulated');
+        expect(simulated.simulatedOut).toBeTruthy();
+        expect(simulated.simulation).toMatchObject({ ok: true });
+
+        unsubscribeSocket(orderId, fakeWs);
+    });
+
 
     it('publishOrderUpdate publishes to redis channel without throwing', async () => {
         await expect(publishOrderUpdate('dummy-1', { orderId: 'dummy-1', status: 'pending' })).resolves.not.toThrow()
@@ -181,6 +216,39 @@ describe('Queue + WS integration (in-memory mocked bullmq)', () => {
         expect(() => unsubscribeSocket(orderId, fakeWs as any)).not.toThrow()
     })
 
+    it('user feed receives events of every order the user owns, including new ones', async () => {
+        const sent: any[] = []
+        const fakeWs: any = { OPEN: 1, readyState: 1, send: (msg: string) => sent.push(JSON.parse(msg)) }
+        subscribeUserSocket('user-1', fakeWs)
+        await new Promise(r => setTimeout(r, 50))
+
+        await publishOrderUpdate('user1-a', { status: 'pending' })
+        await publishOrderUpdate('other-b', { status: 'pending' })
+        await publishOrderUpdate('user1-c', { status: 'confirmed' })
+
+        const start = Date.now()
+        while (sent.length < 2 && Date.now() - start < 2000) await new Promise(r => setTimeout(r, 20))
+        expect(sent).toEqual([{ orderId: 'user1-a', status: 'pending', seq: 1 }, { orderId: 'user1-c', status: 'confirmed', seq: 1 }])
+        unsubscribeUserSocket('user-1', fakeWs)
+    })
+
+    it('replays logged events after lastSeq, then continues live', async () => {
+        await publishOrderUpdate('log-1', { orderId: 'log-1', status: 'pending' })
+        await publishOrderUpdate('log-1', { orderId: 'log-1', status: 'routing' })
+
+        const sent: any[] = []
+        const fakeWs: any = { OPEN: 1, readyState: 1, send: (msg: string) => sent.push(JSON.parse(msg)) }
+        await subscribeSocket('log-1', fakeWs, { lastSeq: 1 })
+        expect(sent).toEqual([{ orderId: 'log-1', status: 'routing', seq: 2, replay: true }])
+
+        await new Promise(r => setTimeout(r, 50))
+        await publishOrderUpdate('log-1', { orderId: 'log-1', status: 'confirmed' })
+        const start = Date.now()
+        while (sent.length < 2 && Date.now() - start < 2000) await new Promise(r => setTimeout(r, 20))
+        expect(sent[1]).toEqual({ orderId: 'log-1', status: 'confirmed', seq: 3 })
+        unsubscribeSocket('log-1', fakeWs)
+    })
+
     it('adding multiple jobs processed concurrently (basic check)', async () => {
         const items = [1, 2, 3].map(i => queue.add('execute', {
             orderId: `many-${i}-${Date.now()}`,